@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+import { ConfigLoader } from './config/ConfigLoader';
+import {
+    COMMANDS,
+    ExitCode,
+    UsageError,
+    findCommand,
+    formatHelp,
+    isJson,
+    printJson,
+} from './commands';
+
+function globalHelp(): string {
+    const width = Math.max(...COMMANDS.map((c) => c.name.length));
+    return [
+        'Usage: block-reaction <command> [options]',
+        '',
+        'Commands:',
+        ...COMMANDS.map((c) => `  ${c.name.padEnd(width)}  ${c.summary}`),
+        '',
+        'Run "block-reaction <command> --help" for command options.',
+        '',
+        'Exit codes:',
+        '  0    success',
+        '  1    runtime error',
+        '  2    invalid arguments or configuration',
+        '  130  interrupted before the run completed',
+    ].join('\n');
+}
+
+/**
+ * Dispatches argv (without the node and script paths) to a subcommand and
+ * resolves to the process exit code.
+ */
+export async function runCli(argv: string[]): Promise<number> {
+    const [name, ...rest] = argv;
+    if (!name || name === '--help' || name === '-h' || name === 'help') {
+        console.log(globalHelp());
+        return name ? ExitCode.OK : ExitCode.USAGE;
+    }
+
+    const command = findCommand(name);
+    if (!command) {
+        console.error(`❌ Unknown command "${name}"\n`);
+        console.error(globalHelp());
+        return ExitCode.USAGE;
+    }
+
+    if (rest.includes('--help') || rest.includes('-h')) {
+        console.log(formatHelp(command));
+        return ExitCode.OK;
+    }
+
+    const args = ConfigLoader.parseArgs(rest, [
+        '--json',
+        '--help',
+        ...(command.booleanFlags || []),
+    ]);
+    const json = isJson(args);
+    if (json) {
+        // Keep stdout for the JSON document; progress logs go to stderr
+        console.log = console.error;
+    }
+
+    let exitCode: number;
+    let message: string;
+    try {
+        return await command.execute(args);
+    } catch (error) {
+        message = (error as Error).message;
+        if (error instanceof UsageError) {
+            exitCode = ExitCode.USAGE;
+            console.error(`❌ ${message}\n`);
+            console.error(`Usage: block-reaction ${command.usage}`);
+            console.error(
+                `Run "block-reaction ${command.name} --help" for options.`
+            );
+        } else {
+            exitCode = ExitCode.FAILURE;
+            console.error('❌ Fatal error:', error);
+        }
+    }
+
+    if (json) {
+        printJson({ error: message, exitCode });
+    }
+    return exitCode;
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then((code) => process.exit(code));
+}
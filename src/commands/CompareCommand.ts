@@ -0,0 +1,39 @@
+import { CliCommand, ParsedArgs } from '../types';
+import { ResultsReader } from '../services/ResultsReader';
+import { RunReport } from '../services/RunReport';
+import {
+    ExitCode,
+    isJson,
+    printJson,
+    rejectUnknownFlags,
+    requirePositionals,
+} from './common';
+
+export class CompareCommand implements CliCommand {
+    public readonly name = 'compare';
+    public readonly summary =
+        'Diff two saved runs: confirmation statistics, fees and configuration.';
+    public readonly usage =
+        'compare <results-file-a> <results-file-b> [--json]';
+    public readonly options: [string, string][] = [];
+
+    public async execute(args: ParsedArgs): Promise<number> {
+        rejectUnknownFlags(args, []);
+        const [fileA, fileB] = requirePositionals(args, [
+            'results-file-a',
+            'results-file-b',
+        ]);
+
+        const comparison = RunReport.compare(
+            ResultsReader.read(fileA),
+            ResultsReader.read(fileB)
+        );
+        if (isJson(args)) {
+            printJson(comparison);
+        } else {
+            RunReport.printComparison(comparison);
+        }
+
+        return ExitCode.OK;
+    }
+}
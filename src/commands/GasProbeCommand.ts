@@ -0,0 +1,136 @@
+import { ethers } from 'ethers';
+import {
+    BlockReactionConfig,
+    CachedGasData,
+    CliCommand,
+    ParsedArgs,
+} from '../types';
+import { FeeStrategy } from '../services/FeeStrategy';
+import { summarize } from '../utils/stats';
+import {
+    CONFIG_OPTIONS,
+    ExitCode,
+    UsageError,
+    isJson,
+    loadConfig,
+    printJson,
+} from './common';
+
+interface GasSample {
+    latencyMs: number;
+    gasData: CachedGasData;
+}
+
+export class GasProbeCommand implements CliCommand {
+    public readonly name = 'gas-probe';
+    public readonly summary =
+        'Fetch gas data from the RPC a few times, time each fetch and show the fees the next transaction would use.';
+    public readonly usage = 'gas-probe [--samples <n>] [options]';
+    public readonly options: [string, string][] = [
+        ['--samples <n>', 'Number of gas data fetches to time (default 3)'],
+        ...CONFIG_OPTIONS,
+    ];
+
+    public async execute(args: ParsedArgs): Promise<number> {
+        const samples = Number(args.flags['--samples'] ?? 3);
+        if (!Number.isInteger(samples) || samples < 1) {
+            throw new UsageError(
+                `--samples must be a positive integer, got "${args.flags['--samples']}"`
+            );
+        }
+
+        const config = loadConfig(args, ['--samples']);
+        const provider = new ethers.JsonRpcProvider(config.httpRpcUrl);
+        const wallet = new ethers.Wallet(config.privateKey, provider);
+
+        console.log('🧪 Gas Probe');
+        console.log('============');
+
+        const chainId = Number((await provider.getNetwork()).chainId);
+        const results: GasSample[] = [];
+        for (let i = 0; i < samples; i++) {
+            const sample = await this.sample(provider, config);
+            results.push(sample);
+            console.log(
+                `${i + 1}. ${
+                    sample.latencyMs
+                }ms - gas price ${ethers.formatUnits(
+                    sample.gasData.gasPrice,
+                    'gwei'
+                )} gwei${
+                    sample.gasData.baseFeePerGas !== undefined
+                        ? `, base fee ${ethers.formatUnits(
+                              sample.gasData.baseFeePerGas,
+                              'gwei'
+                          )} gwei`
+                        : ''
+                }${
+                    sample.gasData.rewardPercentiles
+                        ? `, rewards ${Object.entries(
+                              sample.gasData.rewardPercentiles
+                          )
+                              .map(
+                                  ([p, reward]) =>
+                                      `p${p} ${ethers.formatUnits(
+                                          reward,
+                                          'gwei'
+                                      )}`
+                              )
+                              .join(' / ')} gwei`
+                        : ''
+                }`
+            );
+        }
+
+        const latest = results[results.length - 1].gasData;
+        const fees = FeeStrategy.resolve(config, latest);
+        const tiers =
+            config.txType === 'eip1559' && config.feeStrategy === 'tiers'
+                ? config.feeTiers.map((_p, i) =>
+                      FeeStrategy.resolve(config, latest, i)
+                  )
+                : [];
+        const nonce = await wallet.getNonce('pending');
+        const latency = summarize(results.map((r) => r.latencyMs));
+
+        if (isJson(args)) {
+            printJson({
+                chainId,
+                walletAddress: wallet.address,
+                nonce,
+                latencyMs: latency,
+                samples: results,
+                fees,
+                ...(tiers.length > 0 && { tiers }),
+            });
+            return ExitCode.OK;
+        }
+
+        console.log(`\nChain ID: ${chainId}`);
+        console.log(
+            `Fetch latency: avg ${latency.mean.toFixed(0)}ms, min ${
+                latency.min
+            }ms, max ${latency.max}ms`
+        );
+        console.log(
+            `Next transaction (${config.txType}): ${FeeStrategy.describe(fees)}`
+        );
+        for (const tier of tiers) {
+            console.log(`   Tier ${tier.tier}: ${FeeStrategy.describe(tier)}`);
+        }
+        console.log(`Wallet: ${wallet.address}, next nonce: ${nonce}`);
+        console.log('\n✅ Gas probe completed');
+
+        return ExitCode.OK;
+    }
+
+    // Same fetch the service performs when its gas cache is cold
+    private async sample(
+        provider: ethers.JsonRpcProvider,
+        config: BlockReactionConfig
+    ): Promise<GasSample> {
+        const start = Date.now();
+        const gasData = await FeeStrategy.fetchGasData(provider, config);
+        return { latencyMs: Date.now() - start, gasData };
+    }
+}
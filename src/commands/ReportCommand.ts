@@ -0,0 +1,32 @@
+import { CliCommand, ParsedArgs } from '../types';
+import { ResultsReader } from '../services/ResultsReader';
+import { RunReport } from '../services/RunReport';
+import {
+    ExitCode,
+    isJson,
+    printJson,
+    rejectUnknownFlags,
+    requirePositionals,
+} from './common';
+
+export class ReportCommand implements CliCommand {
+    public readonly name = 'report';
+    public readonly summary =
+        'Print a summary of a saved run from its results file.';
+    public readonly usage = 'report <results-file> [--json]';
+    public readonly options: [string, string][] = [];
+
+    public async execute(args: ParsedArgs): Promise<number> {
+        rejectUnknownFlags(args, []);
+        const [file] = requirePositionals(args, ['results-file']);
+
+        const summary = RunReport.summarize(ResultsReader.read(file));
+        if (isJson(args)) {
+            printJson(summary);
+        } else {
+            RunReport.print(summary);
+        }
+
+        return ExitCode.OK;
+    }
+}
@@ -0,0 +1,120 @@
+import { BlockSourceType, CliCommand, ParsedArgs } from '../types';
+import { BlockchainService } from '../services/BlockchainService';
+import { RunReport } from '../services/RunReport';
+import { ConfigLoader } from '../config/ConfigLoader';
+import {
+    CONFIG_OPTIONS,
+    ExitCode,
+    UsageError,
+    isJson,
+    loadConfig,
+    printJson,
+} from './common';
+
+const SOURCES: Record<string, BlockSourceType> = {
+    ws: 'websocket',
+    websocket: 'websocket',
+    http: 'http',
+    filter: 'filter',
+};
+
+type RunOutcome = 'completed' | 'interrupted';
+
+export class RunCommand implements CliCommand {
+    public readonly name = 'run';
+    public readonly summary =
+        'Send transactions on new blocks and measure how long they take to confirm.';
+    public readonly usage = 'run [--source ws|http|filter] [options]';
+    public readonly booleanFlags = ['--dry-run'];
+    public readonly options: [string, string][] = [
+        [
+            '--source <source>',
+            'Block source: ws, http or filter (overrides --block-source)',
+        ],
+        ...CONFIG_OPTIONS,
+    ];
+
+    public async execute(args: ParsedArgs): Promise<number> {
+        if (args.positionals.length > 0) {
+            throw new UsageError(`Unexpected argument: ${args.positionals[0]}`);
+        }
+
+        const overrides: { blockSource?: BlockSourceType } = {};
+        const source = args.flags['--source'];
+        if (source !== undefined) {
+            if (!SOURCES[source]) {
+                throw new UsageError(
+                    `--source must be one of ws, http, filter, got "${source}"`
+                );
+            }
+            overrides.blockSource = SOURCES[source];
+        }
+
+        const config = loadConfig(args, ['--source'], overrides);
+
+        console.log(
+            `🚀 Blockchain Block Reaction System (${config.blockSource})`
+        );
+        console.log('==================================');
+        ConfigLoader.printConfig(config);
+
+        let finish: (outcome: RunOutcome) => void = () => undefined;
+        const done = new Promise<RunOutcome>((resolve) => {
+            finish = resolve;
+        });
+
+        const service = new BlockchainService(config, { logger: console });
+        service.on('completed', () => finish('completed'));
+
+        // Save and report whatever confirmed before the run was cut short
+        let interrupted = false;
+        const interrupt = () => {
+            if (interrupted) return;
+            interrupted = true;
+            service.saveResults();
+            RunReport.print(RunReport.summarize(service.getResults()));
+            finish('interrupted');
+        };
+        service.on('stopped', interrupt);
+
+        let shutdownRequested = false;
+
+        // Handle graceful shutdown
+        const handleShutdown = (signal: string) => {
+            if (shutdownRequested) {
+                console.log('\n🛑 Force exit...');
+                interrupt();
+                return;
+            }
+
+            console.log(`\n🛑 Received ${signal}, shutting down gracefully...`);
+            shutdownRequested = true;
+            service.stop();
+            if (interrupted) return; // Nothing was pending
+
+            // Nothing left to send: don't wait for the remaining receipts
+            if (!service.shouldContinue()) {
+                console.log('✅ All transactions sent, exiting...');
+                interrupt();
+            } else {
+                console.log('   Press Ctrl+C again to exit.');
+            }
+        };
+
+        process.on('SIGINT', () => handleShutdown('SIGINT'));
+        process.on('SIGTERM', () => handleShutdown('SIGTERM'));
+
+        await service.start();
+        console.log('🔄 Service is running. Press Ctrl+C to stop gracefully.');
+
+        const outcome = await done;
+        if (isJson(args)) {
+            printJson({
+                outcome,
+                ...RunReport.summarize(service.getResults()),
+            });
+        }
+
+        return outcome === 'completed' ? ExitCode.OK : ExitCode.INTERRUPTED;
+    }
+}
@@ -0,0 +1,114 @@
+import { BlockReactionConfig, CliCommand, ParsedArgs } from '../types';
+import { ResultsWriter } from '../services/ResultsWriter';
+import { ConfigLoader } from '../config/ConfigLoader';
+import { CONFIG_SCHEMA } from '../config/schema';
+
+export const ExitCode = {
+    OK: 0,
+    FAILURE: 1, // Runtime error (RPC failure, unreadable file, ...)
+    USAGE: 2, // Bad arguments or invalid configuration
+    INTERRUPTED: 130, // Stopped by SIGINT / SIGTERM before completion
+} as const;
+
+/**
+ * Thrown for bad command-line usage; the CLI prints it with the command's
+ * usage line and exits with ExitCode.USAGE.
+ */
+export class UsageError extends Error {}
+
+export const GLOBAL_OPTIONS: [string, string][] = [
+    ['--json', 'Print machine-readable JSON to stdout (logs go to stderr)'],
+    ['--help, -h', 'Show help for the command'],
+];
+
+// Flags accepted by every command that loads the run configuration
+export const CONFIG_OPTIONS: [string, string][] = [
+    ['--config <file>', 'JSON or YAML config file'],
+    ['--profile <name>', 'Profile from the config file'],
+    ...CONFIG_SCHEMA.map((field): [string, string] => [
+        `${field.flag} <value>`,
+        `${field.label}${field.env ? ` (${field.env})` : ''}`,
+    ]),
+];
+
+export function isJson(args: ParsedArgs): boolean {
+    return args.flags['--json'] === 'true';
+}
+
+export function printJson(value: unknown): void {
+    process.stdout.write(ResultsWriter.stringify(value, 2) + '\n');
+}
+
+export function requirePositionals(
+    args: ParsedArgs,
+    names: string[]
+): string[] {
+    if (args.positionals.length !== names.length) {
+        throw new UsageError(
+            `Expected ${names.map((n) => `<${n}>`).join(' ')}, got ${
+                args.positionals.length
+            } argument(s)`
+        );
+    }
+    return args.positionals;
+}
+
+/**
+ * Splits off the command's own flags and rebuilds argv from the rest, so
+ * ConfigLoader only sees (and validates) configuration flags.
+ */
+export function configArgv(args: ParsedArgs, ownFlags: string[]): string[] {
+    return Object.entries(args.flags)
+        .filter(
+            ([flag]) =>
+                !ownFlags.includes(flag) &&
+                flag !== '--json' &&
+                flag !== '--help'
+        )
+        .map(([flag, value]) => `${flag}=${value}`);
+}
+
+/**
+ * Loads the run configuration from the command's flags, reporting any
+ * configuration problem as a usage error.
+ */
+export function loadConfig(
+    args: ParsedArgs,
+    ownFlags: string[],
+    overrides: Partial<BlockReactionConfig> = {}
+): BlockReactionConfig {
+    try {
+        return ConfigLoader.load(overrides, configArgv(args, ownFlags));
+    } catch (error) {
+        throw new UsageError((error as Error).message);
+    }
+}
+
+export function rejectUnknownFlags(args: ParsedArgs, allowed: string[]): void {
+    const unknown = Object.keys(args.flags).filter(
+        (flag) =>
+            !allowed.includes(flag) && flag !== '--json' && flag !== '--help'
+    );
+    if (unknown.length > 0) {
+        throw new UsageError(
+            `Unknown option${unknown.length > 1 ? 's' : ''}: ${unknown.join(
+                ', '
+            )}`
+        );
+    }
+}
+
+export function formatHelp(command: CliCommand): string {
+    const options = [...command.options, ...GLOBAL_OPTIONS];
+    const width = Math.max(...options.map(([flag]) => flag.length));
+    return [
+        `Usage: block-reaction ${command.usage}`,
+        '',
+        command.summary,
+        '',
+        'Options:',
+        ...options.map(
+            ([flag, description]) => `  ${flag.padEnd(width)}  ${description}`
+        ),
+    ].join('\n');
+}
@@ -0,0 +1,18 @@
+import { CliCommand } from '../types';
+import { RunCommand } from './RunCommand';
+import { ReportCommand } from './ReportCommand';
+import { CompareCommand } from './CompareCommand';
+import { GasProbeCommand } from './GasProbeCommand';
+
+export const COMMANDS: CliCommand[] = [
+    new RunCommand(),
+    new ReportCommand(),
+    new CompareCommand(),
+    new GasProbeCommand(),
+];
+
+export function findCommand(name: string): CliCommand | undefined {
+    return COMMANDS.find((command) => command.name === name);
+}
+
+export * from './common';
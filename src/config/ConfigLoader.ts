@@ -1,132 +1,352 @@
+import fs from 'fs';
+import path from 'path';
 import dotenv from 'dotenv';
-import { BlockReactionConfig } from '../types';
+import YAML from 'yaml';
+import { BlockReactionConfig, ConfigSources, ParsedArgs } from '../types';
+import { CONFIG_SCHEMA } from './schema';
+
+interface ConfigLayer {
+    source: string; // e.g. "file:config.yaml", "profile:sepolia-fast"
+    values: Record<string, unknown>;
+    fieldSources?: Record<string, string>; // Per-field labels, e.g. "env:GAS_LIMIT"
+}
+
+const FIELD_KEYS = new Set<string>(CONFIG_SCHEMA.map((f) => f.key));
+const FILE_ONLY_KEYS = new Set(['profiles', 'chains']);
+const LOADER_FLAGS = new Set(['--config', '--profile']);
 
 export class ConfigLoader {
-    public static load(): BlockReactionConfig {
+    private static sources = new WeakMap<BlockReactionConfig, ConfigSources>();
+
+    /**
+     * Builds the configuration from, in increasing order of precedence:
+     * schema defaults, the config file (`--config` / CONFIG_FILE), the
+     * selected profile (`--profile` / CONFIG_PROFILE), environment
+     * variables, CLI flags and finally programmatic overrides.
+     */
+    public static load(
+        overrides: Partial<BlockReactionConfig> = {},
+        argv: string[] = process.argv.slice(2)
+    ): BlockReactionConfig {
         // Load environment variables
         dotenv.config();
 
-        const config: BlockReactionConfig = {
-            websocketUrl: this.getRequiredEnvVar('WEBSOCKET_URL'),
-            httpRpcUrl: this.getRequiredEnvVar('HTTP_RPC_URL'),
-            privateKey: this.getRequiredEnvVar('PRIVATE_KEY'),
-            recipientAddress: this.getRequiredEnvVar('RECIPIENT_ADDRESS'),
-            gasLimit: this.getEnvVarAsNumber('GAS_LIMIT', 21000),
-            gasPriceGwei: this.getEnvVarAsNumber('GAS_PRICE_GWEI', 20),
-            initialBlocksToSkip: this.getEnvVarAsNumber(
-                'INITIAL_BLOCKS_TO_SKIP',
-                10
-            ),
-            transactionCount: this.getEnvVarAsNumber('TRANSACTION_COUNT', 5),
-        };
-
-        this.validateConfig(config);
+        const args = this.parseArgs(argv);
+        return this.resolve([
+            ...this.fileLayers(args),
+            this.envLayer(),
+            this.cliLayer(args),
+            { source: 'override', values: overrides },
+        ]);
+    }
 
-        return config;
+    /**
+     * Loads one config per chain from a JSON or YAML file of the form
+     * `{ "chains": [{ "name": "base", "httpRpcUrl": "...", ... }] }`.
+     * Each entry overrides the file, profile and environment values; CLI
+     * flags still apply to every chain. Omitted fields (such as the private
+     * key) fall back to the environment.
+     */
+    public static loadChains(
+        file: string,
+        argv: string[] = process.argv.slice(2)
+    ): BlockReactionConfig[] {
+        dotenv.config();
+
+        const parsed = this.readConfigFile(file);
+        const chains: unknown = parsed.chains;
+        if (!Array.isArray(chains) || chains.length === 0) {
+            throw new Error(`${file} must contain a non-empty "chains" array`);
+        }
+
+        const args = this.parseArgs(argv);
+        const names = new Set<string>();
+        return chains.map((entry: Record<string, unknown>, index) => {
+            const { name, ...values } = entry;
+            if (typeof name !== 'string' || !name) {
+                throw new Error(`${file}: chains[${index}] needs a "name"`);
+            }
+            if (names.has(name)) {
+                throw new Error(`${file}: duplicate chain name "${name}"`);
+            }
+            names.add(name);
+            this.checkKnownFields(values, `${file}: chain "${name}"`);
+
+            return this.resolve([
+                ...this.fileLayers(args),
+                this.envLayer(),
+                {
+                    source: `chain:${name}`,
+                    values: { ...values, chainName: name },
+                },
+                this.cliLayer(args),
+            ]);
+        });
     }
 
-    private static getRequiredEnvVar(key: string): string {
-        const value = process.env[key];
-        if (!value) {
-            throw new Error(`Missing required environment variable: ${key}`);
+    /**
+     * Splits argv into `--flag value` / `--flag=value` pairs and positional
+     * arguments. Flags listed in `booleans` never consume the next argument.
+     */
+    public static parseArgs(
+        argv: string[],
+        booleans: string[] = []
+    ): ParsedArgs {
+        const flags: Record<string, string> = {};
+        const positionals: string[] = [];
+
+        for (let i = 0; i < argv.length; i++) {
+            const arg = argv[i];
+            if (!arg.startsWith('--')) {
+                positionals.push(arg);
+                continue;
+            }
+
+            const eq = arg.indexOf('=');
+            if (eq !== -1) {
+                flags[arg.slice(0, eq)] = arg.slice(eq + 1);
+            } else if (
+                !booleans.includes(arg) &&
+                i + 1 < argv.length &&
+                !argv[i + 1].startsWith('--')
+            ) {
+                flags[arg] = argv[++i];
+            } else {
+                flags[arg] = 'true';
+            }
         }
-        return value;
+
+        return { flags, positionals };
+    }
+
+    public static getSources(config: BlockReactionConfig): ConfigSources {
+        return this.sources.get(config) || {};
     }
 
-    private static getEnvVarAsNumber(
-        key: string,
-        defaultValue: number
-    ): number {
-        const value = process.env[key];
-        if (!value) {
-            return defaultValue;
+    private static fileLayers(args: ParsedArgs): ConfigLayer[] {
+        const file = args.flags['--config'] || process.env.CONFIG_FILE;
+        const profile = args.flags['--profile'] || process.env.CONFIG_PROFILE;
+        if (!file) {
+            if (profile) {
+                throw new Error(
+                    `Profile "${profile}" requested but no config file given (--config or CONFIG_FILE)`
+                );
+            }
+            return [];
         }
 
-        const num = parseFloat(value);
-        if (isNaN(num)) {
-            console.warn(
-                `Warning: Invalid value for ${key}: "${value}", using default: ${defaultValue}`
+        const parsed = this.readConfigFile(file);
+        const { profiles, chains: _chains, ...base } = parsed;
+        this.checkKnownFields(base, file);
+
+        const layers: ConfigLayer[] = [
+            { source: `file:${file}`, values: base },
+        ];
+        if (profile) {
+            const profileValues = (profiles as Record<string, unknown>)?.[
+                profile
+            ] as Record<string, unknown> | undefined;
+            if (!profileValues) {
+                const available = Object.keys(profiles || {});
+                throw new Error(
+                    `${file}: unknown profile "${profile}"${
+                        available.length > 0
+                            ? ` (available: ${available.join(', ')})`
+                            : ''
+                    }`
+                );
+            }
+            this.checkKnownFields(
+                profileValues,
+                `${file}: profile "${profile}"`
             );
-            return defaultValue;
+            layers.push({
+                source: `profile:${profile}`,
+                values: profileValues,
+            });
         }
 
-        return num;
+        return layers;
+    }
+
+    private static envLayer(): ConfigLayer {
+        const values: Record<string, unknown> = {};
+        const fieldSources: Record<string, string> = {};
+        for (const field of CONFIG_SCHEMA) {
+            const value = field.env ? process.env[field.env] : undefined;
+            if (field.env && value !== undefined && value !== '') {
+                values[field.key] = value;
+                fieldSources[field.key] = `env:${field.env}`;
+            }
+        }
+        return { source: 'env', values, fieldSources };
     }
 
-    private static validateConfig(config: BlockReactionConfig): void {
-        // Validate WebSocket URL
-        if (
-            !config.websocketUrl.startsWith('wss://') &&
-            !config.websocketUrl.startsWith('ws://')
-        ) {
-            throw new Error('WEBSOCKET_URL must start with wss:// or ws://');
+    private static cliLayer(args: ParsedArgs): ConfigLayer {
+        const knownFlags = new Set(CONFIG_SCHEMA.map((f) => f.flag));
+        const unknown = Object.keys(args.flags).filter(
+            (flag) => !knownFlags.has(flag) && !LOADER_FLAGS.has(flag)
+        );
+        if (unknown.length > 0) {
+            throw new Error(
+                `Unknown option${unknown.length > 1 ? 's' : ''}: ${unknown.join(
+                    ', '
+                )}`
+            );
         }
 
-        // Validate HTTP RPC URL
-        if (
-            !config.httpRpcUrl.startsWith('http://') &&
-            !config.httpRpcUrl.startsWith('https://')
-        ) {
-            throw new Error('HTTP_RPC_URL must start with http:// or https://');
+        const values: Record<string, unknown> = {};
+        const fieldSources: Record<string, string> = {};
+        for (const field of CONFIG_SCHEMA) {
+            if (args.flags[field.flag] !== undefined) {
+                values[field.key] = args.flags[field.flag];
+                fieldSources[field.key] = `cli:${field.flag}`;
+            }
         }
+        return { source: 'cli', values, fieldSources };
+    }
 
-        // Validate private key
-        if (
-            !config.privateKey.startsWith('0x') ||
-            config.privateKey.length !== 66
-        ) {
+    private static readConfigFile(file: string): Record<string, unknown> {
+        let text: string;
+        try {
+            text = fs.readFileSync(file, 'utf8');
+        } catch (error) {
             throw new Error(
-                'PRIVATE_KEY must be a valid 32-byte hex string starting with 0x'
+                `Cannot read config file ${file}: ${(error as Error).message}`
             );
         }
 
-        // Validate recipient address
-        if (
-            !config.recipientAddress.startsWith('0x') ||
-            config.recipientAddress.length !== 42
-        ) {
+        const ext = path.extname(file).toLowerCase();
+        let parsed: unknown;
+        try {
+            parsed =
+                ext === '.yaml' || ext === '.yml'
+                    ? YAML.parse(text)
+                    : JSON.parse(text);
+        } catch (error) {
             throw new Error(
-                'RECIPIENT_ADDRESS must be a valid Ethereum address'
+                `Cannot parse config file ${file}: ${(error as Error).message}`
             );
         }
 
-        // Validate numeric values
-        if (config.gasLimit <= 0) {
-            throw new Error('GAS_LIMIT must be greater than 0');
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            throw new Error(`Config file ${file} must contain an object`);
         }
+        return parsed as Record<string, unknown>;
+    }
 
-        if (config.gasPriceGwei <= 0) {
+    private static checkKnownFields(
+        values: Record<string, unknown>,
+        where: string
+    ): void {
+        const unknown = Object.keys(values).filter(
+            (key) => !FIELD_KEYS.has(key) && !FILE_ONLY_KEYS.has(key)
+        );
+        if (unknown.length > 0) {
             throw new Error(
-                `GAS_PRICE_GWEI must be greater than 0, got: ${config.gasPriceGwei}`
+                `${where}: unknown config field${
+                    unknown.length > 1 ? 's' : ''
+                } ${unknown.map((k) => `"${k}"`).join(', ')}`
             );
         }
+    }
 
-        // Handle very small gas prices (e.g., for testnets or low-fee networks)
-        if (config.gasPriceGwei < 0.000001) {
-            console.warn(
-                `Warning: Very low gas price detected: ${config.gasPriceGwei} gwei. This might cause transaction failures.`
-            );
+    /**
+     * Picks each field from the highest-precedence layer that sets it, then
+     * parses and validates every field, reporting all problems at once.
+     */
+    private static resolve(layers: ConfigLayer[]): BlockReactionConfig {
+        const values: Record<string, unknown> = {};
+        const sources: ConfigSources = {};
+        const errors: string[] = [];
+
+        for (const field of CONFIG_SCHEMA) {
+            const layer = [...layers]
+                .reverse()
+                .find((l) => l.values[field.key] !== undefined);
+
+            if (!layer) {
+                if (field.default !== undefined) {
+                    values[field.key] = field.default;
+                    sources[field.key] = 'default';
+                } else if (field.required) {
+                    errors.push(
+                        `${field.key} is required (set ${field.env}, ${field.flag} or "${field.key}" in a config file)`
+                    );
+                }
+                continue;
+            }
+
+            const source = layer.fieldSources?.[field.key] || layer.source;
+            sources[field.key] = source;
+
+            try {
+                values[field.key] = field.parse(layer.values[field.key]);
+            } catch (error) {
+                errors.push(
+                    `${field.key} (${source}) ${(error as Error).message}`
+                );
+            }
         }
 
-        if (config.initialBlocksToSkip < 0) {
-            throw new Error('INITIAL_BLOCKS_TO_SKIP must be non-negative');
+        const config = values as unknown as BlockReactionConfig;
+        if (errors.length === 0) {
+            for (const field of CONFIG_SCHEMA) {
+                if (values[field.key] === undefined || !field.validate)
+                    continue;
+                const problem = field.validate(
+                    values[field.key] as never,
+                    config
+                );
+                if (problem) {
+                    errors.push(
+                        `${field.key} (${sources[field.key]}) ${problem}`
+                    );
+                }
+            }
         }
 
-        if (config.transactionCount <= 0 || config.transactionCount > 10) {
-            throw new Error('TRANSACTION_COUNT must be between 1 and 10');
+        if (errors.length > 0) {
+            throw new Error(
+                `Invalid configuration:\n${errors
+                    .map((e) => `  - ${e}`)
+                    .join('\n')}`
+            );
         }
+
+        this.sources.set(config, sources);
+        return config;
     }
 
     public static printConfig(config: BlockReactionConfig): void {
+        const sources = this.getSources(config);
+
         console.log('\n🔧 Configuration Loaded:');
         console.log('========================');
-        console.log(`WebSocket URL: ${config.websocketUrl}`);
-        console.log(`HTTP RPC URL: ${config.httpRpcUrl}`);
-        console.log(`Recipient Address: ${config.recipientAddress}`);
-        console.log(`Gas Limit: ${config.gasLimit}`);
-        console.log(`Gas Price: ${config.gasPriceGwei} gwei`);
-        console.log(`Initial Blocks to Skip: ${config.initialBlocksToSkip}`);
-        console.log(`Transaction Count: ${config.transactionCount}`);
+        for (const field of CONFIG_SCHEMA) {
+            if (field.show && !field.show(config)) continue;
+
+            const value = config[field.key];
+            // Secrets reveal nothing, not even a few characters
+            const display = field.secret
+                ? Array.isArray(value)
+                    ? value.map(() => '****').join(', ')
+                    : '****'
+                : field.format
+                ? field.format(value as never)
+                : String(value);
+            const source = sources[field.key];
+            console.log(
+                `${field.label}: ${display}${source ? ` [${source}]` : ''}`
+            );
+        }
         console.log('');
+
+        // Handle very small gas prices (e.g., for testnets or low-fee networks)
+        if (config.gasPriceGwei < 0.000001) {
+            console.warn(
+                `Warning: Very low gas price detected: ${config.gasPriceGwei} gwei. This might cause transaction failures.`
+            );
+        }
     }
 }
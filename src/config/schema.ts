@@ -0,0 +1,608 @@
+import { BlockReactionConfig } from '../types';
+import { SendScheduler } from '../services/SendScheduler';
+import { TransactionPayload } from '../services/TransactionPayload';
+
+/**
+ * Describes one BlockReactionConfig field: where it can be set, how raw
+ * values are parsed and what makes a parsed value valid.
+ */
+export interface ConfigField<
+    K extends keyof BlockReactionConfig = keyof BlockReactionConfig
+> {
+    key: K;
+    env?: string;
+    flag: string; // CLI flag, e.g. --gas-limit
+    label: string;
+    parse: (raw: unknown) => BlockReactionConfig[K]; // Throws with a readable reason
+    default?: BlockReactionConfig[K];
+    required?: boolean;
+    secret?: boolean;
+    validate?: (
+        value: BlockReactionConfig[K],
+        config: BlockReactionConfig
+    ) => string | null;
+    show?: (config: BlockReactionConfig) => boolean; // Hide from printConfig when irrelevant
+    format?: (value: BlockReactionConfig[K]) => string;
+}
+
+const describe = (raw: unknown) =>
+    typeof raw === 'string' ? `"${raw}"` : JSON.stringify(raw);
+
+const parseString = (raw: unknown): string => {
+    if (typeof raw !== 'string' && typeof raw !== 'number') {
+        throw new Error(`must be a string, got ${describe(raw)}`);
+    }
+    return String(raw);
+};
+
+const parseNumber = (raw: unknown): number => {
+    const num = typeof raw === 'number' ? raw : parseFloat(String(raw));
+    if (typeof raw === 'boolean' || !Number.isFinite(num)) {
+        throw new Error(`must be a number, got ${describe(raw)}`);
+    }
+    return num;
+};
+
+const parseBoolean = (raw: unknown): boolean => {
+    const value = String(raw).toLowerCase();
+    if (['true', '1', 'yes'].includes(value)) return true;
+    if (['false', '0', 'no'].includes(value)) return false;
+    throw new Error(`must be true or false, got ${describe(raw)}`);
+};
+
+const parseList = (raw: unknown): string[] => {
+    const items = Array.isArray(raw) ? raw : String(raw).split(',');
+    return items.map((item) => String(item).trim()).filter(Boolean);
+};
+
+function parseChoice<T extends string>(
+    choices: T[],
+    aliases: Record<string, T> = {}
+): (raw: unknown) => T {
+    return (raw) => {
+        const value = String(raw).toLowerCase();
+        if (aliases[value]) return aliases[value];
+        if (!choices.includes(value as T)) {
+            throw new Error(
+                `must be one of ${choices.join(', ')}, got ${describe(raw)}`
+            );
+        }
+        return value as T;
+    };
+}
+
+const isPrivateKey = (key: string) => /^0x[0-9a-fA-F]{64}$/.test(key);
+
+const isPercentile = (value: number) => value >= 0 && value <= 100;
+
+const usesFeeHistory = (config: BlockReactionConfig) =>
+    config.txType === 'eip1559' &&
+    (config.feeStrategy === 'fee-history' || config.feeStrategy === 'tiers');
+
+const isHttpUrl = (url: string) =>
+    url.startsWith('http://') || url.startsWith('https://');
+
+function field<K extends keyof BlockReactionConfig>(
+    spec: ConfigField<K>
+): ConfigField {
+    return spec as unknown as ConfigField;
+}
+
+export const CONFIG_SCHEMA: ConfigField[] = [
+    field({
+        key: 'chainName',
+        env: 'CHAIN_NAME',
+        flag: '--chain-name',
+        label: 'Chain',
+        parse: parseString,
+        show: (config) => config.chainName !== undefined,
+    }),
+    field({
+        key: 'blockSource',
+        env: 'BLOCK_SOURCE',
+        flag: '--block-source',
+        label: 'Block Source',
+        parse: parseChoice(['websocket', 'http', 'filter'], {
+            ws: 'websocket',
+        }),
+        default: 'websocket',
+    }),
+    field({
+        key: 'websocketUrl',
+        env: 'WEBSOCKET_URL',
+        flag: '--websocket-url',
+        label: 'WebSocket URL',
+        parse: parseString,
+        default: '',
+        validate: (value, config) => {
+            if (config.blockSource !== 'websocket') return null;
+            if (!value) return 'is required when blockSource is websocket';
+            return value.startsWith('wss://') || value.startsWith('ws://')
+                ? null
+                : 'must start with wss:// or ws://';
+        },
+        show: (config) => config.blockSource === 'websocket',
+    }),
+    field({
+        key: 'httpRpcUrl',
+        env: 'HTTP_RPC_URL',
+        flag: '--http-rpc-url',
+        label: 'HTTP RPC URL',
+        parse: parseString,
+        required: true,
+        validate: (value) =>
+            isHttpUrl(value) ? null : 'must start with http:// or https://',
+    }),
+    field({
+        key: 'broadcastRpcUrls',
+        env: 'BROADCAST_RPC_URLS',
+        flag: '--broadcast-rpc-urls',
+        label: 'Broadcast RPC URLs',
+        parse: parseList,
+        default: [],
+        validate: (value) => {
+            const invalid = value.find((url) => !isHttpUrl(url));
+            return invalid
+                ? `entries must start with http:// or https://, got "${invalid}"`
+                : null;
+        },
+        show: (config) => config.broadcastRpcUrls.length > 0,
+        format: (value) => value.join(', '),
+    }),
+    field({
+        key: 'mempoolWsUrl',
+        env: 'MEMPOOL_WS_URL',
+        flag: '--mempool-ws-url',
+        label: 'Mempool Observer URL',
+        parse: parseString,
+        default: '',
+        validate: (value) =>
+            !value || value.startsWith('wss://') || value.startsWith('ws://')
+                ? null
+                : 'must start with wss:// or ws://',
+        show: (config) => config.mempoolWsUrl !== '',
+    }),
+    field({
+        key: 'privateKey',
+        env: 'PRIVATE_KEY',
+        flag: '--private-key',
+        label: 'Private Key',
+        parse: parseString,
+        required: true,
+        secret: true,
+        validate: (value) =>
+            isPrivateKey(value)
+                ? null
+                : 'must be a valid 32-byte hex string starting with 0x',
+    }),
+    field({
+        key: 'privateKeys',
+        env: 'PRIVATE_KEYS',
+        flag: '--private-keys',
+        label: 'Extra Sender Keys',
+        parse: parseList,
+        default: [],
+        secret: true,
+        validate: (value, config) => {
+            if (value.some((key) => !isPrivateKey(key))) {
+                return 'entries must be 32-byte hex strings starting with 0x';
+            }
+            const keys = [config.privateKey, ...value].map((key) =>
+                key.toLowerCase()
+            );
+            return new Set(keys).size === keys.length
+                ? null
+                : 'must not repeat a key (including PRIVATE_KEY)';
+        },
+        show: (config) => config.privateKeys.length > 0,
+    }),
+    field({
+        key: 'walletSelection',
+        env: 'WALLET_SELECTION',
+        flag: '--wallet-selection',
+        label: 'Wallet Selection',
+        parse: parseChoice(['round-robin', 'fan-out']),
+        default: 'round-robin',
+        show: (config) => config.privateKeys.length > 0,
+    }),
+    field({
+        key: 'relayUrl',
+        env: 'RELAY_URL',
+        flag: '--relay-url',
+        label: 'Private Relay URL',
+        parse: parseString,
+        default: '',
+        validate: (value) =>
+            !value || isHttpUrl(value)
+                ? null
+                : 'must start with http:// or https://',
+        show: (config) => config.relayUrl !== '',
+    }),
+    field({
+        key: 'relayMode',
+        env: 'RELAY_MODE',
+        flag: '--relay-mode',
+        label: 'Relay Mode',
+        parse: parseChoice(['private', 'bundle']),
+        default: 'private',
+        show: (config) => config.relayUrl !== '',
+    }),
+    field({
+        key: 'relayAuthKey',
+        env: 'RELAY_AUTH_KEY',
+        flag: '--relay-auth-key',
+        label: 'Relay Auth Key',
+        parse: parseString,
+        default: '',
+        secret: true,
+        validate: (value, config) => {
+            if (!config.relayUrl) return null;
+            if (!isPrivateKey(value)) {
+                return 'must be a 32-byte hex string starting with 0x when relayUrl is set';
+            }
+            return [config.privateKey, ...config.privateKeys].some(
+                (key) => key.toLowerCase() === value.toLowerCase()
+            )
+                ? 'must be a separate key, not one of the sender keys'
+                : null;
+        },
+        show: (config) => config.relayUrl !== '',
+    }),
+    field({
+        key: 'relayRoute',
+        env: 'RELAY_ROUTE',
+        flag: '--relay-route',
+        label: 'Relay Route',
+        parse: parseChoice(['all', 'alternate']),
+        default: 'all',
+        show: (config) => config.relayUrl !== '',
+    }),
+    field({
+        key: 'recipientAddress',
+        env: 'RECIPIENT_ADDRESS',
+        flag: '--recipient-address',
+        label: 'Recipient Address',
+        parse: parseString,
+        required: true,
+        validate: (value) =>
+            value.startsWith('0x') && value.length === 42
+                ? null
+                : 'must be a valid Ethereum address',
+    }),
+    field({
+        key: 'valueWei',
+        env: 'VALUE_WEI',
+        flag: '--value-wei',
+        label: 'Value',
+        parse: (raw) => {
+            const value = parseString(raw).trim();
+            if (!/^\d+$/.test(value)) {
+                throw new Error(
+                    `must be a whole number of wei, got ${describe(raw)}`
+                );
+            }
+            return value;
+        },
+        default: '10',
+        format: (value) => `${value} wei`,
+    }),
+    field({
+        key: 'calldata',
+        env: 'CALLDATA',
+        flag: '--calldata',
+        label: 'Calldata',
+        parse: parseString,
+        default: '',
+        validate: (value) =>
+            !value || /^0x([0-9a-fA-F]{2})*$/.test(value)
+                ? null
+                : 'must be 0x-prefixed hex with whole bytes',
+        show: (config) => config.calldata !== '',
+    }),
+    field({
+        key: 'contractAbi',
+        env: 'CONTRACT_ABI',
+        flag: '--contract-abi',
+        label: 'Contract ABI',
+        parse: (raw) =>
+            typeof raw === 'object' && raw !== null
+                ? JSON.stringify(raw)
+                : parseString(raw),
+        default: '',
+        validate: (value, config) =>
+            value ? TransactionPayload.check(config) : null,
+        show: (config) => config.contractAbi !== '',
+    }),
+    field({
+        key: 'contractFunction',
+        env: 'CONTRACT_FUNCTION',
+        flag: '--contract-function',
+        label: 'Contract Function',
+        parse: parseString,
+        default: '',
+        show: (config) => config.contractAbi !== '',
+        format: (value) => value || '(the only function in the ABI)',
+    }),
+    field({
+        key: 'contractArgs',
+        env: 'CONTRACT_ARGS',
+        flag: '--contract-args',
+        label: 'Contract Arguments',
+        // A JSON array keeps nested values and commas; otherwise comma-separated
+        parse: (raw) => {
+            if (Array.isArray(raw)) return raw;
+            const value = String(raw).trim();
+            if (!value.startsWith('[')) return parseList(value);
+            const parsed: unknown = JSON.parse(value);
+            if (!Array.isArray(parsed)) {
+                throw new Error(`must be a JSON array, got ${describe(raw)}`);
+            }
+            return parsed;
+        },
+        default: [],
+        show: (config) => config.contractAbi !== '',
+        format: (value) => JSON.stringify(value),
+    }),
+    field({
+        key: 'gasLimit',
+        env: 'GAS_LIMIT',
+        flag: '--gas-limit',
+        label: 'Gas Limit',
+        parse: parseNumber,
+        default: 21000,
+        validate: (value, config) => {
+            if (value <= 0) return 'must be greater than 0';
+            return value <= 21000 &&
+                !config.estimateGas &&
+                (config.calldata || config.contractAbi)
+                ? 'only covers a plain transfer; raise it or enable estimateGas for calldata'
+                : null;
+        },
+        show: (config) => !config.estimateGas,
+    }),
+    field({
+        key: 'estimateGas',
+        env: 'ESTIMATE_GAS',
+        flag: '--estimate-gas',
+        label: 'Estimate Gas',
+        parse: parseBoolean,
+        default: false,
+    }),
+    field({
+        key: 'gasPriceGwei',
+        env: 'GAS_PRICE_GWEI',
+        flag: '--gas-price-gwei',
+        label: 'Gas Price',
+        parse: parseNumber,
+        default: 20,
+        validate: (value) => (value > 0 ? null : 'must be greater than 0'),
+        format: (value) => `${value} gwei`,
+    }),
+    field({
+        key: 'txType',
+        env: 'TX_TYPE',
+        flag: '--tx-type',
+        label: 'Transaction Type',
+        parse: parseChoice(['legacy', 'eip1559'], {
+            '0': 'legacy',
+            '2': 'eip1559',
+            '1559': 'eip1559',
+        }),
+        default: 'legacy',
+    }),
+    field({
+        key: 'feeStrategy',
+        env: 'FEE_STRATEGY',
+        flag: '--fee-strategy',
+        label: 'Fee Strategy',
+        parse: parseChoice([
+            'provider',
+            'fixed-tip',
+            'base-fee-multiple',
+            'fee-history',
+            'tiers',
+        ]),
+        default: 'provider',
+        show: (config) => config.txType === 'eip1559',
+    }),
+    field({
+        key: 'priorityFeeGwei',
+        env: 'PRIORITY_FEE_GWEI',
+        flag: '--priority-fee-gwei',
+        label: 'Priority Fee',
+        parse: parseNumber,
+        default: 1.5,
+        validate: (value) => (value >= 0 ? null : 'must be non-negative'),
+        show: (config) =>
+            config.txType === 'eip1559' &&
+            config.feeStrategy !== 'base-fee-multiple',
+        format: (value) => `${value} gwei`,
+    }),
+    field({
+        key: 'baseFeeMultiplier',
+        env: 'BASE_FEE_MULTIPLIER',
+        flag: '--base-fee-multiplier',
+        label: 'Base Fee Multiplier',
+        parse: parseNumber,
+        default: 0.1,
+        validate: (value) => (value >= 0 ? null : 'must be non-negative'),
+        show: (config) =>
+            config.txType === 'eip1559' &&
+            config.feeStrategy === 'base-fee-multiple',
+    }),
+    field({
+        key: 'feeHistoryBlocks',
+        env: 'FEE_HISTORY_BLOCKS',
+        flag: '--fee-history-blocks',
+        label: 'Fee History Blocks',
+        parse: parseNumber,
+        default: 20,
+        validate: (value) =>
+            Number.isInteger(value) && value >= 1 && value <= 1024
+                ? null
+                : 'must be a whole number between 1 and 1024',
+        show: (config) => usesFeeHistory(config),
+    }),
+    field({
+        key: 'feeHistoryPercentile',
+        env: 'FEE_HISTORY_PERCENTILE',
+        flag: '--fee-history-percentile',
+        label: 'Fee History Percentile',
+        parse: parseNumber,
+        default: 50,
+        validate: (value) => (isPercentile(value) ? null : 'must be 0-100'),
+        show: (config) =>
+            config.txType === 'eip1559' && config.feeStrategy === 'fee-history',
+        format: (value) => `p${value}`,
+    }),
+    field({
+        key: 'feeTiers',
+        env: 'FEE_TIERS',
+        flag: '--fee-tiers',
+        label: 'Fee Tiers',
+        parse: (raw) =>
+            (Array.isArray(raw) ? raw : parseList(raw)).map(parseNumber),
+        default: [10, 50, 90],
+        validate: (value) =>
+            value.length > 0 && value.every(isPercentile)
+                ? null
+                : 'must list reward percentiles between 0 and 100',
+        show: (config) =>
+            config.txType === 'eip1559' && config.feeStrategy === 'tiers',
+        format: (value) => value.map((p) => `p${p}`).join(', '),
+    }),
+    field({
+        key: 'initialBlocksToSkip',
+        env: 'INITIAL_BLOCKS_TO_SKIP',
+        flag: '--initial-blocks-to-skip',
+        label: 'Initial Blocks to Skip',
+        parse: parseNumber,
+        default: 10,
+        validate: (value) => (value >= 0 ? null : 'must be non-negative'),
+    }),
+    field({
+        key: 'transactionCount',
+        env: 'TRANSACTION_COUNT',
+        flag: '--transaction-count',
+        label: 'Transaction Count',
+        parse: parseNumber,
+        default: 5,
+        validate: (value) =>
+            Number.isInteger(value) && value > 0 && value <= 10
+                ? null
+                : 'must be a whole number between 1 and 10',
+    }),
+    field({
+        key: 'sendSchedule',
+        env: 'SEND_SCHEDULE',
+        flag: '--send-schedule',
+        label: 'Send Schedule',
+        parse: (raw) => SendScheduler.parseSchedule(raw),
+        default: { mode: 'every-block' },
+        format: (value) => SendScheduler.describe(value),
+    }),
+    field({
+        key: 'sendConditions',
+        env: 'SEND_CONDITIONS',
+        flag: '--send-conditions',
+        label: 'Send Conditions',
+        parse: (raw) => SendScheduler.parseConditions(raw),
+        default: [],
+        format: (value) =>
+            value.length > 0 ? SendScheduler.describeConditions(value) : 'none',
+    }),
+    field({
+        key: 'dryRun',
+        env: 'DRY_RUN',
+        flag: '--dry-run',
+        label: 'Dry Run',
+        parse: parseBoolean,
+        default: false,
+    }),
+    field({
+        key: 'feeBumpAfterBlocks',
+        env: 'FEE_BUMP_AFTER_BLOCKS',
+        flag: '--fee-bump-after-blocks',
+        label: 'Fee Bump After Blocks',
+        parse: parseNumber,
+        default: 0,
+        validate: (value) =>
+            value >= 0 ? null : 'must be non-negative (0 disables)',
+    }),
+    field({
+        key: 'feeBumpPercent',
+        env: 'FEE_BUMP_PERCENT',
+        flag: '--fee-bump-percent',
+        label: 'Fee Bump Percent',
+        parse: parseNumber,
+        default: 10,
+        validate: (value) =>
+            value >= 10
+                ? null
+                : 'must be at least 10 (nodes reject smaller replacement bumps)',
+        show: (config) => config.feeBumpAfterBlocks > 0,
+        format: (value) => `${value}%`,
+    }),
+    field({
+        key: 'maxFeeGwei',
+        env: 'MAX_FEE_GWEI',
+        flag: '--max-fee-gwei',
+        label: 'Max Fee',
+        parse: parseNumber,
+        default: 0,
+        validate: (value) =>
+            value >= 0 ? null : 'must be non-negative (0 disables)',
+        show: (config) => config.feeBumpAfterBlocks > 0,
+        format: (value) => (value > 0 ? `${value} gwei` : 'none'),
+    }),
+    field({
+        key: 'resultsDir',
+        env: 'RESULTS_DIR',
+        flag: '--results-dir',
+        label: 'Results Directory',
+        parse: parseString,
+        default: 'results',
+        show: (config) => config.resultsFormats.length > 0,
+    }),
+    field({
+        key: 'resultsFormats',
+        env: 'RESULTS_FORMAT',
+        flag: '--results-format',
+        label: 'Results Format',
+        parse: (raw) => {
+            const formats = parseList(raw).map((f) => f.toLowerCase());
+            if (formats.length === 1 && formats[0] === 'none') return [];
+            const invalid = formats.find((f) => f !== 'jsonl' && f !== 'csv');
+            if (invalid) {
+                throw new Error(
+                    `must be a comma-separated list of jsonl, csv or "none", got "${invalid}"`
+                );
+            }
+            return formats as BlockReactionConfig['resultsFormats'];
+        },
+        default: ['jsonl', 'csv'],
+        format: (value) => (value.length > 0 ? value.join(', ') : 'disabled'),
+    }),
+    field({
+        key: 'metricsPort',
+        env: 'METRICS_PORT',
+        flag: '--metrics-port',
+        label: 'Metrics Port',
+        parse: parseNumber,
+        default: 0,
+        validate: (value) =>
+            Number.isInteger(value) && value >= 0 && value <= 65535
+                ? null
+                : 'must be a port number (0 disables)',
+        format: (value) => (value > 0 ? `${value}` : 'disabled'),
+    }),
+    field({
+        key: 'metricsHost',
+        env: 'METRICS_HOST',
+        flag: '--metrics-host',
+        label: 'Metrics Host',
+        parse: parseString,
+        default: '0.0.0.0',
+        show: (config) => config.metricsPort > 0,
+    }),
+];
@@ -0,0 +1,77 @@
+import { MultiChainRunner } from './services/MultiChainRunner';
+import { ConfigLoader } from './config/ConfigLoader';
+
+async function main() {
+    try {
+        console.log('🚀 Blockchain Block Reaction System (Multi-Chain)');
+        console.log('===============================================');
+
+        // Load and validate one configuration per chain
+        const argv = process.argv.slice(2);
+        const chainsFile =
+            ConfigLoader.parseArgs(argv).positionals[0] ||
+            process.env.CHAINS_FILE;
+        if (!chainsFile) {
+            throw new Error(
+                'Pass a chains file as the first argument or set CHAINS_FILE'
+            );
+        }
+        const chains = ConfigLoader.loadChains(chainsFile, argv);
+        chains.forEach((config) => ConfigLoader.printConfig(config));
+
+        // The first chain's metrics settings apply to the shared endpoint
+        const runner = new MultiChainRunner(
+            chains,
+            chains[0].metricsPort,
+            chains[0].metricsHost
+        );
+
+        let shutdownRequested = false;
+
+        // Handle graceful shutdown
+        const handleShutdown = (signal: string) => {
+            if (shutdownRequested) {
+                console.log('\n🛑 Force exit...');
+                runner.saveResults();
+                runner.printComparison();
+                process.exit(0);
+            }
+
+            console.log(`\n🛑 Received ${signal}, shutting down gracefully...`);
+            shutdownRequested = true;
+            runner.stop();
+        };
+
+        process.on('SIGINT', () => handleShutdown('SIGINT'));
+        process.on('SIGTERM', () => handleShutdown('SIGTERM'));
+
+        // Run every chain until all transactions are confirmed or it is stopped
+        console.log('🔄 Chains are running. Press Ctrl+C to stop gracefully.');
+        await runner.run();
+
+        const failed = runner.failedChains();
+        if (failed.length > 0) {
+            console.error(
+                `\n❌ ${failed.length} chain(s) failed to start: ${failed.join(
+                    ', '
+                )}. Exiting...`
+            );
+            process.exit(1);
+        }
+        console.log(
+            runner.isCompleted()
+                ? '\n🎉 All chains completed! Exiting...'
+                : '\n🛑 All chains stopped. Exiting...'
+        );
+        process.exit(0);
+    } catch (error) {
+        console.error('❌ Fatal error:', error);
+        process.exit(1);
+    }
+}
+
+// Run the application
+main().catch((error) => {
+    console.error('❌ Unhandled error:', error);
+    process.exit(1);
+});
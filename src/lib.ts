@@ -0,0 +1,7 @@
+// Library entry point for embedding the block reaction engine in other Node apps
+export { BlockchainService } from './services/BlockchainService';
+export type { BlockchainServiceOptions } from './services/BlockchainService';
+export { ConfigLoader } from './config/ConfigLoader';
+export { MetricsRegistry } from './services/MetricsRegistry';
+export { RunReport } from './services/RunReport';
+export * from './types';
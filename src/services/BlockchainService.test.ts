@@ -0,0 +1,614 @@
+import { ethers } from 'ethers';
+import { BlockchainService } from './BlockchainService';
+import { MetricsRegistry } from './MetricsRegistry';
+import { RunReport } from './RunReport';
+import { TransactionPayload } from './TransactionPayload';
+import { MockNode } from '../testing/MockNode';
+import { MockRelay } from '../testing/MockRelay';
+import {
+    TEST_EXTRA_KEYS,
+    TEST_PRIVATE_KEY,
+    TEST_RECIPIENT,
+    mockConfig,
+    waitFor,
+} from '../testing/helpers';
+import {
+    BlockReactionConfig,
+    BlockSourceType,
+    Logger,
+    TransactionFailure,
+} from '../types';
+
+jest.setTimeout(30000);
+
+describe('BlockchainService against a mock node', () => {
+    let node: MockNode;
+    let service: BlockchainService | null;
+    let completed: boolean;
+    let logger: jest.Mocked<Logger>;
+
+    beforeEach(async () => {
+        logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+        node = new MockNode();
+        await node.start();
+        service = null;
+        completed = false;
+    });
+
+    afterEach(async () => {
+        service?.close();
+        await node.stop();
+        jest.restoreAllMocks();
+    });
+
+    async function startService(
+        overrides: Partial<BlockReactionConfig>,
+        metricsRegistry?: MetricsRegistry
+    ): Promise<BlockchainService> {
+        service = new BlockchainService(mockConfig(node, overrides), {
+            metricsRegistry,
+            logger,
+        });
+        service.on('completed', () => (completed = true));
+        await service.start();
+        if (service.getConnectionStats().blockSource === 'WebSocket') {
+            await waitFor(
+                () => node.subscriptionCount > 0,
+                5000,
+                'subscription'
+            );
+        }
+        return service;
+    }
+
+    it.each<BlockSourceType>(['websocket', 'http', 'filter'])(
+        'sends on new blocks and measures confirmations with the %s source',
+        async (blockSource) => {
+            const service = await startService({
+                blockSource,
+                transactionCount: 2,
+            });
+            node.startMining(250);
+
+            await waitFor(() => completed, 20000, 'run to complete');
+
+            const { run, metrics } = service.getResults();
+            expect(run.chainId).toBe(node.chainId);
+            expect(run.transactionsSent).toBe(2);
+            expect(metrics).toHaveLength(2);
+            for (const m of metrics) {
+                expect(m.blocksToConfirm).toBe(1);
+                expect(m.txType).toBe('eip1559');
+                expect(m.gasUsed).toBe(BigInt(21000));
+                expect(m.presigned).toBe(true);
+                expect(node.getReceipt(m.transactionHash)).not.toBeNull();
+            }
+            expect(new Set(node.transactions.map((t) => t.tx.nonce))).toEqual(
+                new Set([0, 1])
+            );
+        }
+    );
+
+    it('keeps every latency stage non-negative under fast mining', async () => {
+        const service = await startService({
+            blockSource: 'http',
+            transactionCount: 4,
+        });
+        node.startMining(100);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        for (const m of service.getConfirmationMetrics()) {
+            const stages = [
+                m.blockNotificationLagMs,
+                m.preparationMs,
+                m.submissionMs,
+                m.inclusionMs,
+                m.receiptLagMs,
+            ];
+            for (const stage of stages) {
+                expect(stage).toBeGreaterThanOrEqual(0);
+                // Mock timestamps follow the wall clock, so no stage drifts
+                expect(stage).toBeLessThan(5000);
+            }
+        }
+    });
+
+    it('sends a burst per block and tags the metrics with the schedule', async () => {
+        const service = await startService({
+            transactionCount: 5,
+            sendSchedule: { mode: 'burst', transactions: 3 },
+        });
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        const metrics = service.getConfirmationMetrics();
+        expect(metrics).toHaveLength(5);
+        expect(metrics.every((m) => m.schedule === 'burst:3')).toBe(true);
+        expect(
+            metrics.map((m) => [m.sentBlockNumber, m.burstIndex]).sort()
+        ).toEqual([
+            [1, 0],
+            [1, 1],
+            [1, 2],
+            [2, 0],
+            [2, 1],
+        ]);
+    });
+
+    it('waits for a block that meets the send conditions', async () => {
+        node.baseFeePerGas = BigInt(50e9);
+        await startService({
+            sendConditions: [{ field: 'baseFee', operator: '<', value: 20 }],
+        });
+
+        node.mineBlocks(2);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        expect(node.transactions).toHaveLength(0);
+
+        node.baseFeePerGas = BigInt(10e9);
+        node.mineBlock();
+        await waitFor(() => node.transactions.length === 1);
+        expect(node.transactions[0].receivedBlock).toBe(3);
+    });
+
+    it('sends the configured contract call with an estimated gas limit', async () => {
+        const service = await startService({
+            contractAbi: 'function store(uint256 value)',
+            contractArgs: ['42'],
+            valueWei: '0',
+            estimateGas: true,
+        });
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        const [sent] = node.transactions;
+        expect(sent.tx.value).toBe(BigInt(0));
+        expect(
+            new ethers.Interface([
+                'function store(uint256)',
+            ]).decodeFunctionData('store', sent.tx.data)[0]
+        ).toBe(BigInt(42));
+
+        const [metrics] = service.getConfirmationMetrics();
+        expect(metrics.payload).toBe('store(uint256)');
+        expect(metrics.gasLimit).toBeGreaterThan(Number(metrics.gasUsed));
+    });
+
+    it('fans out across wallets with independent nonces', async () => {
+        const service = await startService({
+            transactionCount: 6,
+            privateKeys: TEST_EXTRA_KEYS,
+            walletSelection: 'fan-out',
+        });
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        const metrics = service.getConfirmationMetrics();
+        const senders = [TEST_PRIVATE_KEY, ...TEST_EXTRA_KEYS].map(
+            (key) => new ethers.Wallet(key).address
+        );
+        for (const sender of senders) {
+            const own = metrics.filter((m) => m.sender === sender);
+            expect(own.map((m) => m.sentBlockNumber).sort()).toEqual([1, 2]);
+            expect(own.every((m) => m.blocksToConfirm === 1)).toBe(true);
+            expect(
+                node.transactions
+                    .filter((t) => t.tx.from === sender)
+                    .map((t) => t.tx.nonce)
+                    .sort()
+            ).toEqual([0, 1]);
+        }
+        expect(service.getResults().run.config.senderAddresses).toEqual(
+            senders
+        );
+    });
+
+    it('rotates fee tiers taken from the fee history', async () => {
+        // Seed one block with tips of 1, 2 and 3 gwei from another wallet
+        const provider = new ethers.JsonRpcProvider(node.httpUrl);
+        const other = new ethers.Wallet(TEST_EXTRA_KEYS[0], provider);
+        for (const [nonce, tip] of [1, 2, 3].entries()) {
+            await other.sendTransaction({
+                to: TEST_RECIPIENT,
+                nonce,
+                gasLimit: 21000,
+                maxPriorityFeePerGas: ethers.parseUnits(`${tip}`, 'gwei'),
+                maxFeePerGas: ethers.parseUnits('10', 'gwei'),
+            });
+        }
+        node.mineBlock();
+        provider.destroy();
+
+        const service = await startService({
+            feeStrategy: 'tiers',
+            transactionCount: 3,
+        });
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        const tiers = service
+            .getConfirmationMetrics()
+            .sort((a, b) => a.sentBlockNumber - b.sentBlockNumber)
+            .map((m) => [
+                m.feeTier,
+                ethers.formatUnits(m.maxPriorityFeePerGas!, 'gwei'),
+            ]);
+        expect(tiers).toEqual([
+            ['p10', '1.0'],
+            ['p50', '2.0'],
+            ['p90', '3.0'],
+        ]);
+        expect(
+            RunReport.summarize(service.getResults()).feeCurve.map(
+                (row) => row.label
+            )
+        ).toEqual(['p10', 'p50', 'p90']);
+    });
+
+    describe('through a private relay', () => {
+        const authKey = ethers.Wallet.createRandom().privateKey;
+        let relay: MockRelay;
+
+        beforeEach(async () => {
+            relay = new MockRelay(node);
+            await relay.start();
+        });
+
+        afterEach(async () => {
+            service?.close();
+            await relay.stop();
+        });
+
+        it('alternates private and public sends and compares the routes', async () => {
+            const service = await startService({
+                transactionCount: 2,
+                relayUrl: relay.url,
+                relayMode: 'private',
+                relayAuthKey: authKey,
+                relayRoute: 'alternate',
+            });
+            node.startMining(250);
+
+            await waitFor(() => completed, 20000, 'run to complete');
+
+            expect(relay.requests).toHaveLength(1);
+            expect(relay.requests[0]).toMatchObject({
+                method: 'eth_sendPrivateTransaction',
+                signer: new ethers.Wallet(authKey).address,
+            });
+
+            const metrics = service
+                .getConfirmationMetrics()
+                .sort((a, b) => a.sentBlockNumber - b.sentBlockNumber);
+            expect(metrics.map((m) => m.route)).toEqual(['private', 'public']);
+            expect(metrics[0].transactionHash).toBe(
+                ethers.keccak256(relay.requests[0].txs[0])
+            );
+            expect(
+                RunReport.summarize(service.getResults()).routes.map((r) => [
+                    r.route,
+                    r.count,
+                ])
+            ).toEqual([
+                ['private', 1],
+                ['public', 1],
+            ]);
+        });
+
+        it('re-sends a bundle for the next block until it lands', async () => {
+            node.inclusionDelayBlocks = 1; // The first target block is missed
+            const service = await startService({
+                relayUrl: relay.url,
+                relayMode: 'bundle',
+                relayAuthKey: authKey,
+            });
+
+            node.mineBlock(); // #1: bundle sent for #2
+            await waitFor(() => relay.requests.length === 1, 5000, 'bundle');
+            node.mineBlock(); // #2: missed, re-sent for #3
+            await waitFor(() => relay.requests.length === 2, 5000, 'resend');
+            node.mineBlock(); // #3: included
+            await waitFor(() => completed, 20000, 'run to complete');
+
+            expect(relay.requests.map((r) => r.blockNumber)).toEqual([2, 3]);
+            const [metrics] = service.getConfirmationMetrics();
+            expect(metrics).toMatchObject({
+                route: 'bundle',
+                relaySubmissions: 2,
+                confirmedBlockNumber: 3,
+            });
+        });
+    });
+
+    it('reports progress as events and resolves run() with the results', async () => {
+        const exit = jest
+            .spyOn(process, 'exit')
+            .mockImplementation(() => undefined as never);
+        const output = (['log', 'warn', 'error'] as const).map((method) =>
+            jest.spyOn(console, method)
+        );
+        const events: string[] = [];
+        service = new BlockchainService(
+            mockConfig(node, { initialBlocksToSkip: 1, transactionCount: 2 })
+        );
+        service.on('blockSkipped', (skip) =>
+            events.push(`skipped #${skip.blockNumber}`)
+        );
+        service.on('txSent', (tx) =>
+            events.push(`sent #${tx.sentBlockNumber}`)
+        );
+        service.on('txConfirmed', (m) =>
+            events.push(`confirmed #${m.sentBlockNumber}`)
+        );
+
+        const running = service.run();
+        await waitFor(() => node.subscriptionCount > 0, 5000, 'subscription');
+        node.startMining(250);
+        const { run, metrics } = await running;
+
+        expect(run.transactionsSent).toBe(2);
+        expect(metrics).toHaveLength(2);
+        expect(events.sort()).toEqual([
+            'confirmed #2',
+            'confirmed #3',
+            'sent #2',
+            'sent #3',
+            'skipped #1',
+        ]);
+        expect(service.isRunning()).toBe(false);
+        expect(exit).not.toHaveBeenCalled();
+        // No logger was passed, so nothing reaches the console
+        output.forEach((spy) => expect(spy).not.toHaveBeenCalled());
+    });
+
+    it('resolves run() once a stopped service has nothing pending', async () => {
+        service = new BlockchainService(
+            mockConfig(node, { transactionCount: 3 })
+        );
+        const stopped = jest.fn();
+        service.on('stopped', stopped);
+
+        const running = service.run();
+        await waitFor(() => node.subscriptionCount > 0, 5000, 'subscription');
+        node.mineBlock();
+        await waitFor(() => node.transactions.length === 1);
+        service.stop();
+        node.startMining(250);
+        const { run, metrics } = await running;
+
+        expect(stopped).toHaveBeenCalledTimes(1);
+        expect(run.transactionsSent).toBe(1);
+        expect(metrics).toHaveLength(1);
+        expect(completed).toBe(false);
+    });
+
+    it('signs and simulates in a dry run without broadcasting', async () => {
+        const service = await startService({
+            dryRun: true,
+            transactionCount: 2,
+        });
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        expect(node.transactions).toHaveLength(0);
+        expect(service.getConfirmationMetrics()).toHaveLength(0);
+        const simulations = service.getSimulations();
+        expect(simulations.map((s) => s.sentBlockNumber)).toEqual([1, 2]);
+        for (const s of simulations) {
+            // The nonce is never used up, so every simulation gets the same one
+            expect(s).toMatchObject({
+                nonce: 0,
+                payload: 'transfer',
+                gasLimit: 21000,
+                estimatedGas: 21000,
+                returnData: '0x',
+            });
+            expect(s.error).toBeUndefined();
+        }
+        expect(service.isRunning()).toBe(false);
+    });
+
+    it('records a reverting gas estimate as a failed simulation', async () => {
+        node.revertCalls = true;
+        const service = await startService({
+            dryRun: true,
+            transactionCount: 2,
+            estimateGas: true,
+        });
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        const simulations = service.getSimulations();
+        expect(simulations).toHaveLength(2);
+        for (const s of simulations) {
+            // Signed with the fixed gas limit since the estimate failed
+            expect(s).toMatchObject({
+                gasLimit: 21000,
+                error: expect.stringMatching(/revert/),
+            });
+            expect(s.estimatedGas).toBeUndefined();
+        }
+        expect(node.transactions).toHaveLength(0);
+    });
+
+    it('never sends more than the transaction count when signing fails', async () => {
+        // Fails the pre-sign at startup and the inline signing on block #1
+        const request = TransactionPayload.prototype.request;
+        let failures = 2;
+        jest.spyOn(TransactionPayload.prototype, 'request').mockImplementation(
+            function (this: TransactionPayload, wallet) {
+                if (failures-- > 0) {
+                    return Promise.reject(new Error('execution reverted'));
+                }
+                return request.call(this, wallet);
+            }
+        );
+        const service = await startService({ transactionCount: 2 });
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        expect(node.transactions).toHaveLength(2);
+        expect(service.getStatus()).toEqual({
+            sent: 2,
+            confirmed: 2,
+            total: 2,
+        });
+        expect(
+            service.getConfirmationMetrics().map((m) => m.sentBlockNumber)
+        ).toEqual([2, 3]);
+    });
+
+    it('never processes a receipt twice when a check outlasts the interval', async () => {
+        const getReceipt =
+            ethers.JsonRpcProvider.prototype.getTransactionReceipt;
+        jest.spyOn(
+            ethers.JsonRpcProvider.prototype,
+            'getTransactionReceipt'
+        ).mockImplementation(async function (
+            this: ethers.JsonRpcProvider,
+            hash
+        ) {
+            // Longer than the 2s between receipt checks
+            await new Promise((resolve) => setTimeout(resolve, 2500));
+            return getReceipt.call(this, hash);
+        });
+
+        const service = await startService({});
+        let confirmations = 0;
+        service.on('txConfirmed', () => confirmations++);
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+        // Long enough for an overlapping check to finish as well
+        await new Promise((resolve) => setTimeout(resolve, 3000));
+
+        expect(confirmations).toBe(1);
+        expect(service.getConfirmationMetrics()).toHaveLength(1);
+    });
+
+    it('skips the configured number of initial blocks', async () => {
+        await startService({ initialBlocksToSkip: 2 });
+
+        node.mineBlocks(2);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+        expect(node.transactions).toHaveLength(0);
+
+        node.mineBlock();
+        await waitFor(() => node.transactions.length === 1);
+        expect(node.transactions[0].receivedBlock).toBe(3);
+    });
+
+    it('counts the blocks a delayed inclusion takes', async () => {
+        node.inclusionDelayBlocks = 2;
+        const service = await startService({});
+        node.startMining(250);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        expect(service.getConfirmationMetrics()[0].blocksToConfirm).toBe(3);
+    });
+
+    it('reports reverted transactions as failed', async () => {
+        const registry = new MetricsRegistry();
+        const service = await startService({}, registry);
+        const failures: TransactionFailure[] = [];
+        service.on('txFailed', (failure) => failures.push(failure));
+        node.revertNext();
+        node.startMining(100);
+
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        expect(service.getConfirmationMetrics()).toHaveLength(1);
+        expect(failures).toEqual([
+            expect.objectContaining({
+                reason: 'reverted',
+                sentBlockNumber: 1,
+                hash: service.getConfirmationMetrics()[0].transactionHash,
+            }),
+        ]);
+        expect(registry.render()).toMatch(
+            /^block_reaction_transactions_failed_total 1$/m
+        );
+    });
+
+    it('moves a reorged confirmation back to pending and re-confirms it', async () => {
+        const registry = new MetricsRegistry();
+        const service = await startService({ transactionCount: 2 }, registry);
+
+        node.mineBlock(); // #1: first send
+        await waitFor(() => node.pendingCount === 1, 5000, 'first send');
+        node.mineBlock(); // #2: includes the first transaction, second send
+        await waitFor(() => node.pendingCount === 1, 5000, 'second send');
+        await waitFor(
+            () => service.getConfirmationMetrics().length === 1,
+            10000,
+            'first confirmation'
+        );
+        const [first] = service.getConfirmationMetrics();
+        // Let the receipt check finish and ethers' 250ms request cache expire
+        await new Promise((resolve) => setTimeout(resolve, 500));
+
+        node.reorg(1); // Replaces #2 with a new #2 and #3
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        const { metrics, reorgs } = service.getResults();
+        expect(reorgs).toHaveLength(1);
+        expect(reorgs[0].affectedTransactions).toEqual([first.transactionHash]);
+
+        const reconfirmed = metrics.find(
+            (m) => m.transactionHash === first.transactionHash
+        )!;
+        expect(reconfirmed.reorged).toBe(true);
+        expect(reconfirmed.confirmedBlockHash).not.toBe(
+            first.confirmedBlockHash
+        );
+        // Counted once, when it first confirmed
+        const exposition = registry.render();
+        expect(exposition).toMatch(
+            /^block_reaction_transactions_confirmed_total 2$/m
+        );
+        expect(exposition).toMatch(
+            /^block_reaction_blocks_to_confirm_count 2$/m
+        );
+        expect(exposition).toMatch(
+            /^block_reaction_confirmation_time_ms_count 2$/m
+        );
+    });
+
+    it('backfills blocks missed while the WebSocket was down', async () => {
+        const service = await startService({ transactionCount: 3 });
+
+        node.mineBlock();
+        await waitFor(() => node.transactions.length === 1);
+
+        node.dropConnections();
+        node.mineBlocks(2); // Produced while disconnected
+
+        await waitFor(() => node.subscriptionCount > 0, 10000, 'reconnect');
+        await waitFor(() => node.transactions.length === 3, 5000, 'backfill');
+        node.startMining(100);
+        await waitFor(() => completed, 20000, 'run to complete');
+
+        const { run } = service.getResults();
+        expect(run.connection).toMatchObject({
+            reconnects: 1,
+            backfilledBlocks: 2,
+        });
+        expect(logger.log).toHaveBeenCalledWith(
+            expect.stringMatching(
+                /^Block source \(WebSocket\): 1 reconnects, .* 2 blocks backfilled$/
+            )
+        );
+        expect(
+            service.getConfirmationMetrics().map((m) => m.sentBlockNumber)
+        ).toEqual(expect.arrayContaining([1, 2, 3]));
+    });
+});
@@ -1,61 +1,240 @@
+import { EventEmitter } from 'events';
 import { ethers } from 'ethers';
-import WebSocket from 'ws';
 import {
     BlockData,
-    TransactionResult,
+    BlockchainServiceEvents,
     ConfirmationMetrics,
+    ConnectionStats,
     BlockReactionConfig,
-    WebSocketMessage,
+    BlockSource,
     CachedGasData,
+    EndpointSubmission,
+    FeeParams,
+    Logger,
+    PendingTransaction,
+    ReorgEvent,
+    SavedRun,
+    SignedTransaction,
+    SimulatedTransaction,
+    SubmissionRoute,
+    TransactionAttempt,
 } from '../types';
+import { createBlockSource } from '../sources';
+import { FeeStrategy } from './FeeStrategy';
+import { ResultsWriter } from './ResultsWriter';
+import { RunReport } from './RunReport';
+import { MetricLabels, MetricsRegistry } from './MetricsRegistry';
+import { MetricsServer } from './MetricsServer';
+import { ServiceMetrics } from './ServiceMetrics';
+import { ReorgTracker } from './ReorgTracker';
+import { BroadcastRace } from './BroadcastRace';
+import { MempoolObserver } from './MempoolObserver';
+import { BlockFacts, SendScheduler } from './SendScheduler';
+import { TransactionPayload } from './TransactionPayload';
+import { SenderLane, SenderPool } from './SenderPool';
+import { PrivateRelay } from './PrivateRelay';
+import {
+    TransactionPresigner,
+    UnsignedTransaction,
+} from './TransactionPresigner';
+import { SILENT_LOGGER } from '../utils/logger';
+
+// Blocks at or above this gasUsed / gasLimit ratio count as full
+const FULL_BLOCK_RATIO = 0.95;
+
+export interface BlockchainServiceOptions {
+    blockSource?: BlockSource;
+    metricsRegistry?: MetricsRegistry; // Share one registry between services
+    metricsLabels?: MetricLabels; // Added to every metric this service records
+    logger?: Logger; // Progress output; silent when omitted
+}
 
-export class BlockchainService {
+/**
+ * The block reaction engine. Sends transactions on new blocks, follows them
+ * until they confirm and reports progress as typed events. It never exits
+ * the process; `run()` resolves with the results once every transaction has
+ * confirmed or the service has stopped.
+ */
+export class BlockchainService extends EventEmitter<BlockchainServiceEvents> {
     private provider: ethers.JsonRpcProvider;
-    private wallet: ethers.Wallet;
-    private ws: WebSocket | null = null;
+    private blockSource: BlockSource;
     private config: BlockReactionConfig;
     private blockCount = 0;
-    private pendingTransactions = new Map<
-        string,
-        {
-            sentBlock: number;
-            startTime: number;
-            sentBlockTimestamp: string;
-            sentTimestamp: number;
-        }
-    >();
+    private pendingTransactions = new Map<string, PendingTransaction>();
     private confirmationMetrics: ConfirmationMetrics[] = [];
-    private isConnected = false;
+    private confirmedTransactions = new Map<string, PendingTransaction>(); // Kept so reorged txs can return to pending
+    private reorgTracker: ReorgTracker;
+    private reorgEvents: ReorgEvent[] = [];
     private sentTransactionCount = 0; // Track how many transactions we've sent
+    private chainId = 0;
+    private resultsWriter: ResultsWriter;
+    private metrics: ServiceMetrics;
+    private metricsServer: MetricsServer | null = null;
+    private timers: NodeJS.Timeout[] = []; // Next receipt check and gas refresh
+    private stopped = false; // No new sends; timers end once nothing is pending
+    private sendsInFlight = 0; // Not yet tracked as pending or failed
+    private simulations: SimulatedTransaction[] = []; // Dry run only
+    private logger: Logger;
 
     // Gas data caching
     private cachedGasData: CachedGasData | null = null;
     private readonly GAS_CACHE_TTL = 30000; // 30 seconds TTL for gas data
 
-    // Nonce caching
-    private cachedNonce: { nonce: number; lastUpdated: number } | null = null;
-    private readonly NONCE_CACHE_TTL = 60000; // 1 minute TTL for nonce
+    // Sender wallets, each with its own nonces and pre-signed transaction
+    private senders: SenderPool;
+
+    // Which blocks to send on, and how many transactions
+    private scheduler: SendScheduler;
+
+    // Transfer, calldata or contract call sent on each reaction
+    private payload: TransactionPayload;
+
+    // Multi-RPC broadcast, null when only httpRpcUrl is used
+    private broadcastRace: BroadcastRace | null = null;
+    private mempoolObserver: MempoolObserver | null = null;
+
+    // Private relay submission, null when every send goes public
+    private relay: PrivateRelay | null = null;
+    private routedSends = 0;
 
-    constructor(config: BlockReactionConfig) {
+    constructor(
+        config: BlockReactionConfig,
+        options: BlockchainServiceOptions = {}
+    ) {
+        super();
         this.config = config;
+        this.logger = options.logger ?? SILENT_LOGGER;
         this.provider = new ethers.JsonRpcProvider(config.httpRpcUrl);
-        this.wallet = new ethers.Wallet(config.privateKey, this.provider);
-        console.log(`Wallet address: ${this.wallet.address}`);
+        this.blockSource =
+            options.blockSource ||
+            createBlockSource(config, this.provider, this.logger);
+        this.resultsWriter = new ResultsWriter(config);
+        this.reorgTracker = new ReorgTracker(this.provider);
+        this.payload = new TransactionPayload(config);
+        this.scheduler = new SendScheduler(
+            config.sendSchedule,
+            config.sendConditions
+        );
+        this.senders = new SenderPool(
+            [config.privateKey, ...config.privateKeys],
+            this.provider,
+            config.walletSelection,
+            (lane, nonce) => this.buildReaction(lane, nonce),
+            this.logger
+        );
+        if (config.broadcastRpcUrls.length > 0) {
+            this.broadcastRace = new BroadcastRace([
+                ...new Set([config.httpRpcUrl, ...config.broadcastRpcUrls]),
+            ]);
+        }
+        if (config.relayUrl) {
+            this.relay = new PrivateRelay(
+                config.relayUrl,
+                config.relayAuthKey,
+                config.relayMode
+            );
+        }
+        if (config.mempoolWsUrl) {
+            this.mempoolObserver = new MempoolObserver(
+                config.mempoolWsUrl,
+                this.logger
+            );
+        }
+        this.metrics = new ServiceMetrics(
+            options.metricsRegistry || new MetricsRegistry(),
+            options.metricsLabels
+        );
+        this.metrics.registry.addCollector(() => {
+            this.metrics.pendingTransactions.set(
+                this.pendingTransactions.size,
+                this.metrics.labels
+            );
+            this.metrics.blockSourceReconnects.setTotal(
+                this.blockSource.reconnectCount,
+                this.metrics.labels
+            );
+            this.metrics.blockSourceDowntimeMs.setTotal(
+                this.blockSource.downtimeMs,
+                this.metrics.labels
+            );
+            this.metrics.backfilledBlocks.setTotal(
+                this.blockSource.backfilledBlocks,
+                this.metrics.labels
+            );
+        });
+        if (this.senders.lanes.length > 1) {
+            this.logger.log(
+                `Wallet addresses (${
+                    config.walletSelection
+                }): ${this.senders.addresses.join(', ')}`
+            );
+        } else {
+            this.logger.log(
+                `Wallet address: ${this.senders.primary.wallet.address}`
+            );
+        }
+    }
+
+    /**
+     * Starts the service and resolves with the results once every
+     * transaction has confirmed, or once it has stopped after `stop()`.
+     */
+    public async run(): Promise<SavedRun> {
+        const settled = new Promise<SavedRun>((resolve) => {
+            this.once('completed', resolve);
+            this.once('stopped', () => resolve(this.getResults()));
+        });
+        await this.start();
+        return settled;
     }
 
+    /**
+     * Connects and starts reacting to blocks; resolves once block
+     * monitoring is running.
+     */
     public async start(): Promise<void> {
-        console.log('🚀 Starting blockchain block reaction system...');
+        this.logger.log(
+            `🚀 Starting blockchain block reaction system (${this.blockSource.name})...`
+        );
+
+        this.chainId = Number((await this.provider.getNetwork()).chainId);
+        this.logger.log(
+            `🔗 Chain ID: ${this.chainId}, run ID: ${this.resultsWriter.runId}`
+        );
+        if (this.config.dryRun) {
+            this.logger.log(
+                '🧪 Dry run: transactions are signed and simulated, never broadcast'
+            );
+        }
+
+        if (this.config.metricsPort > 0) {
+            this.metricsServer = new MetricsServer(
+                this.metrics.registry,
+                this.config.metricsPort,
+                this.config.metricsHost,
+                this.logger
+            );
+            await this.metricsServer.start();
+        }
 
         // Pre-fetch gas data and nonce to have them ready for instant transactions
-        console.log('⛽ Pre-fetching gas data and nonce...');
+        this.logger.log(
+            '⛽ Pre-fetching gas data and nonce, pre-signing the first transaction...'
+        );
         await this.getCachedGasData();
-        await this.getCachedNonce();
+        await this.senders.sync();
+        await this.senders.refresh();
 
-        // Start WebSocket connection immediately
-        console.log(
-            `⏳ Starting WebSocket monitoring. Will skip first ${this.config.initialBlocksToSkip} blocks...`
+        // Connect the mempool observer before the first send
+        this.mempoolObserver?.start();
+
+        // Start block monitoring immediately
+        this.logger.log(
+            `⏳ Starting ${this.blockSource.name} block monitoring. Will skip first ${this.config.initialBlocksToSkip} blocks...`
+        );
+        await this.blockSource.start((blockData) =>
+            this.handleNewBlock(blockData)
         );
-        this.connectWebSocket();
 
         // Start monitoring pending transactions
         this.startTransactionMonitoring();
@@ -64,62 +243,32 @@ export class BlockchainService {
         this.startGasDataRefresh();
     }
 
-    private connectWebSocket(): void {
-        console.log(`🔌 Connecting to WebSocket: ${this.config.websocketUrl}`);
-
-        this.ws = new WebSocket(this.config.websocketUrl);
-
-        this.ws.on('open', () => {
-            console.log('✅ WebSocket connected');
-            this.isConnected = true;
-            this.subscribeToNewBlocks();
-        });
+    private async handleNewBlock(blockData: BlockData): Promise<void> {
+        const receivedAt = Date.now();
+        this.blockCount++;
+        const blockNumber = parseInt(blockData.number, 16);
+        this.emit('block', blockData);
+        if (blockNumber > this.metrics.headBlock.get(this.metrics.labels)) {
+            this.metrics.headBlock.set(blockNumber, this.metrics.labels);
+        }
 
-        this.ws.on('message', (data: WebSocket.Data) => {
-            try {
-                const message: WebSocketMessage = JSON.parse(data.toString());
-                if (
-                    message.method === 'eth_subscription' &&
-                    message.params?.result
-                ) {
-                    this.handleNewBlock(message.params.result);
-                }
-            } catch (error) {
-                console.error('❌ Error parsing WebSocket message:', error);
+        try {
+            const reorg = await this.reorgTracker.track(blockData);
+            if (reorg) {
+                // Re-check receipts in the background so the reaction isn't delayed
+                this.handleReorg(reorg).catch((error) =>
+                    this.reportError('❌ Error handling reorg:', error)
+                );
             }
-        });
-
-        this.ws.on('error', (error) => {
-            console.error('❌ WebSocket error:', error);
-            this.isConnected = false;
-        });
+        } catch (error) {
+            this.logger.warn('⚠️ Failed to check block for reorg:', error);
+        }
 
-        this.ws.on('close', () => {
-            console.log(
-                '🔌 WebSocket disconnected, attempting to reconnect...'
+        if (this.relay?.mode === 'bundle') {
+            this.resendBundles(blockNumber).catch((error) =>
+                this.reportError('❌ Error re-sending bundles:', error)
             );
-            this.isConnected = false;
-            setTimeout(() => this.connectWebSocket(), 5000);
-        });
-    }
-
-    private subscribeToNewBlocks(): void {
-        if (!this.ws || !this.isConnected) return;
-
-        const subscriptionMessage = {
-            jsonrpc: '2.0',
-            id: 1,
-            method: 'eth_subscribe',
-            params: ['newHeads'],
-        };
-
-        this.ws.send(JSON.stringify(subscriptionMessage));
-        console.log('📡 Subscribed to new block notifications');
-    }
-
-    private async handleNewBlock(blockData: BlockData): Promise<void> {
-        this.blockCount++;
-        const blockNumber = parseInt(blockData.number, 16);
+        }
 
         // Skip blocks until we've seen enough to establish consistent connection
         if (this.blockCount <= this.config.initialBlocksToSkip) {
@@ -128,92 +277,208 @@ export class BlockchainService {
             ).toISOString();
             const currentTimestamp = new Date().toISOString();
 
-            console.log(
+            this.logger.log(
                 `⏭️  Skipping block #${blockNumber} (${this.blockCount}/${this.config.initialBlocksToSkip} skipped)`
             );
-            console.log(`   Block timestamp: ${blockTimestamp}`);
-            console.log(`   Current time: ${currentTimestamp}`);
+            this.logger.log(`   Block timestamp: ${blockTimestamp}`);
+            this.logger.log(`   Current time: ${currentTimestamp}`);
+            this.emit('blockSkipped', {
+                blockNumber,
+                reason: `initial block skip (${this.blockCount}/${this.config.initialBlocksToSkip})`,
+            });
             return;
         }
 
-        console.log(
+        this.logger.log(
             `\n🆕 New block detected: #${blockNumber} (${
                 this.blockCount
             } total, ${
                 this.blockCount - this.config.initialBlocksToSkip
-            } processed)`
+            } processed)${blockData.backfilled ? ' (backfilled)' : ''}`
         );
-        console.log(`   Hash: ${blockData.hash}`);
-        console.log(
+        this.logger.log(`   Hash: ${blockData.hash}`);
+        this.logger.log(
             `   Timestamp: ${new Date(
                 parseInt(blockData.timestamp, 16) * 1000
             ).toISOString()}`
         );
-        console.log(`   Current time: ${new Date().toISOString()}`);
+        this.logger.log(`   Current time: ${new Date().toISOString()}`);
+        if (blockData.transactions) {
+            this.logger.log(
+                `   Transactions: ${blockData.transactions.length}`
+            );
+        }
 
-        // Send transaction if we haven't reached the limit
-        if (this.sentTransactionCount < this.config.transactionCount) {
-            console.log(
-                `📤 Sending transaction ${this.sentTransactionCount + 1}/${
-                    this.config.transactionCount
-                }...`
+        // Send transactions if we haven't reached the limit
+        const remaining =
+            this.config.transactionCount - this.sentTransactionCount;
+        if (remaining > 0) {
+            const plan = this.scheduler.plan(await this.blockFacts(blockData));
+            if (plan.count === 0) {
+                this.logger.log(
+                    `⏸️  Not sending on block #${blockNumber} (${this.scheduler.tag}): ${plan.reason}`
+                );
+                this.emit('blockSkipped', {
+                    blockNumber,
+                    reason: `${this.scheduler.tag}: ${plan.reason}`,
+                });
+                return;
+            }
+
+            const lanes = this.senders.assign(plan.count, remaining);
+            const count = lanes.length;
+            const first = this.sentTransactionCount + 1;
+            this.logger.log(
+                `📤 Sending transaction ${
+                    count > 1 ? `${first}-${first + count - 1}` : first
+                }/${this.config.transactionCount}...`
             );
-            await this.sendTransaction(blockNumber, blockData);
+            this.sendsInFlight += count;
+            try {
+                await Promise.all(
+                    lanes.map((lane, burstIndex) =>
+                        this.sendTransaction(
+                            lane,
+                            blockNumber,
+                            blockData,
+                            receivedAt,
+                            burstIndex
+                        )
+                    )
+                );
+            } finally {
+                this.sendsInFlight -= count;
+            }
+            if (this.config.dryRun && !this.shouldContinue()) {
+                this.completeDryRun();
+            }
         } else {
-            console.log(
+            this.logger.log(
                 `✅ Transaction limit reached (${this.sentTransactionCount}/${this.config.transactionCount} sent), stopping new transactions`
             );
             this.stop();
         }
     }
 
+    /**
+     * Collects what send conditions look at. Transaction counts are fetched
+     * only when a condition needs them and the block source didn't include
+     * them (newHeads notifications carry no transaction list).
+     */
+    private async blockFacts(blockData: BlockData): Promise<BlockFacts> {
+        let txCount = blockData.transactions?.length;
+        if (txCount === undefined && this.scheduler.needs('txCount')) {
+            try {
+                txCount = Number(
+                    await this.provider.send(
+                        'eth_getBlockTransactionCountByHash',
+                        [blockData.hash]
+                    )
+                );
+            } catch (error) {
+                this.logger.warn(
+                    `⚠️ Failed to fetch the transaction count of block ${blockData.hash}:`,
+                    error
+                );
+            }
+        }
+
+        return {
+            number: parseInt(blockData.number, 16),
+            baseFeeGwei:
+                blockData.baseFeePerGas !== undefined
+                    ? parseInt(blockData.baseFeePerGas, 16) / 1e9
+                    : undefined,
+            txCount,
+            gasUsedRatio:
+                blockData.gasUsed && blockData.gasLimit
+                    ? BlockchainService.gasUsedRatio(
+                          parseInt(blockData.gasUsed, 16),
+                          parseInt(blockData.gasLimit, 16)
+                      )
+                    : undefined,
+        };
+    }
+
     private async sendTransaction(
+        lane: SenderLane,
         blockNumber: number,
-        blockData: BlockData
+        blockData: BlockData,
+        receivedAt: number,
+        burstIndex = 0
     ): Promise<void> {
-        try {
-            console.log(`💸 Sending transaction from block #${blockNumber}...`);
+        let reservedNonce: number | null = null;
 
-            // Get cached gas data for faster transaction sending
-            const gasData = await this.getCachedGasData();
-
-            // Get cached nonce for faster transaction sending
-            const nonceData = await this.getCachedNonce();
-
-            // Prepare transaction
-            const tx = {
-                to: this.config.recipientAddress,
-                value: ethers.parseEther('0.00000000000000001'), // Small amount for testing
-                gasLimit: this.config.gasLimit,
-                gasPrice: gasData.gasPrice,
-                nonce: nonceData.nonce,
-            };
+        try {
+            this.logger.log(
+                `💸 Sending transaction from block #${blockNumber}...`
+            );
 
-            // Send transaction
-            // Increment sent transaction count
+            // Counted up front so the catch below always undoes exactly this send
             this.sentTransactionCount++;
 
-            // Capture timestamp right before sending
-            const sendTimestamp = Date.now();
-            const response = await this.wallet.sendTransaction(tx);
-
-            // Increment cached nonce for next transaction
-            if (this.cachedNonce) {
-                this.cachedNonce.nonce++;
+            // Normally already signed; re-signed here only if gas data changed
+            const gasData = await this.getCachedGasData();
+            this.metrics.recordGasCacheLookup(gasData.cached);
+            const signed = await lane.presigner.take(gasData.lastUpdated);
+            reservedNonce = signed.nonce;
+            const { fees } = signed;
+
+            if (this.config.dryRun) {
+                // Nothing goes out, so the nonce stays free on the node too
+                lane.nonceManager.release(signed.nonce);
+                await this.simulateTransaction(
+                    lane,
+                    signed,
+                    blockNumber,
+                    burstIndex
+                );
+                if (this.shouldContinue()) lane.presigner.refresh();
+                return;
             }
-            const hash = response.hash;
 
-            console.log(`📤 Transaction sent: ${hash}`);
-            console.log(
-                `   Gas Price: ${ethers.formatUnits(
-                    gasData.gasPrice,
-                    'gwei'
-                )} gwei`
+            const route = this.nextRoute();
+            const submission = await this.broadcastTransaction(
+                signed.signedTx,
+                route,
+                blockNumber + 1
+            );
+            const { hash, submissions } = submission;
+            lane.nonceManager.markSent(signed.nonce);
+            this.metrics.transactionsSent.inc(this.metrics.labels);
+
+            this.logger.log(`📤 Transaction sent: ${hash}`);
+            if (submissions) {
+                this.logSubmissions(submissions);
+            }
+            this.logger.log(`   ${FeeStrategy.describe(fees)}`);
+            this.logger.log(
+                `   Nonce: ${signed.nonce}${
+                    this.senders.lanes.length > 1
+                        ? ` (sender ${SenderPool.label(lane.wallet.address)})`
+                        : ''
+                }`
             );
-            console.log(`   Nonce: ${tx.nonce}`);
-            console.log(`   Gas data: ${gasData.cached ? 'cached' : 'fresh'}`);
-            console.log(
-                `   Nonce data: ${nonceData.cached ? 'cached' : 'fresh'}`
+            this.logger.log(
+                `   Gas data: ${gasData.cached ? 'cached' : 'fresh'}`
+            );
+            if (route !== 'public') {
+                this.logger.log(
+                    `   Route: ${route} via relay${
+                        route === 'bundle'
+                            ? `, targeting block #${blockNumber + 1}`
+                            : ''
+                    }`
+                );
+            }
+            this.logger.log(
+                `   Signing: ${
+                    signed.presigned
+                        ? `presigned ${
+                              receivedAt - signed.signedAt
+                          }ms before the block arrived`
+                        : `inline (${signed.signingMs}ms)`
+                }`
             );
 
             // Track pending transaction
@@ -221,128 +486,693 @@ export class BlockchainService {
                 sentBlock: blockNumber,
                 startTime: Date.now(),
                 sentBlockTimestamp: blockData.timestamp,
-                sentTimestamp: sendTimestamp,
+                sentBlockGasUsedRatio:
+                    blockData.gasUsed && blockData.gasLimit
+                        ? BlockchainService.gasUsedRatio(
+                              parseInt(blockData.gasUsed, 16),
+                              parseInt(blockData.gasLimit, 16)
+                          )
+                        : undefined,
+                blockReceivedAt: receivedAt,
+                sentTimestamp: submission.submittedAt,
+                schedule: this.scheduler.tag,
+                burstIndex,
+                sender: lane.wallet.address,
+                route,
+                relaySubmissions: route === 'public' ? 0 : 1,
+                fees,
+                reorgCount: 0,
+                nonce: signed.nonce,
+                request: signed.request,
+                attempts: [
+                    {
+                        ...submission,
+                        fees,
+                        submittedBlock: blockNumber,
+                        signedAt: signed.signedAt,
+                        signingMs: signed.signingMs,
+                        presigned: signed.presigned,
+                    },
+                ],
             });
 
-            console.log(
+            this.logger.log(
                 `📊 Transaction count: ${this.sentTransactionCount}/${this.config.transactionCount}`
             );
+            this.emit('txSent', {
+                hash,
+                nonce: signed.nonce,
+                sender: lane.wallet.address,
+                sentBlockNumber: blockNumber,
+                burstIndex,
+                route,
+                fees,
+            });
         } catch (error) {
-            console.error('❌ Error sending transaction:', error);
+            this.logger.error('❌ Error sending transaction:', error);
+            this.emit('txFailed', {
+                reason: 'send-error',
+                sender: lane.wallet.address,
+                sentBlockNumber: blockNumber,
+                error,
+            });
+            if (reservedNonce !== null) {
+                const kind = await lane.nonceManager
+                    .handleSendError(reservedNonce, error)
+                    .catch(() => 'other');
+                if (kind !== 'other') {
+                    this.logger.warn(
+                        `🔁 Nonce ${reservedNonce} rejected (${kind}), resynced from pending`
+                    );
+                }
+            }
             this.sentTransactionCount--;
+            this.metrics.transactionsFailed.inc(this.metrics.labels);
+        }
+
+        // Sign the next transaction while waiting for the next block
+        if (this.shouldContinue()) {
+            lane.presigner.refresh();
+        } else {
+            this.senders.discard();
         }
     }
 
-    private async getCachedGasData(): Promise<{
-        gasPrice: bigint;
-        cached: boolean;
-    }> {
-        const now = Date.now();
+    /**
+     * Builds the next reaction transaction from the cached gas data; used by
+     * the presigner whenever it signs ahead.
+     */
+    private async buildReaction(
+        lane: SenderLane,
+        nonce: number
+    ): Promise<UnsignedTransaction> {
+        const gasData = await this.getCachedGasData();
+        // Tiers rotate per nonce, offset per lane so fanned-out sends differ
+        const fees = FeeStrategy.resolve(
+            this.config,
+            gasData,
+            nonce + lane.index
+        );
+        // A dry run signs a failing estimate anyway and reports it as the
+        // simulation result, instead of retrying it on every block
+        let estimateError: string | undefined;
+        const request = await this.payload
+            .request(lane.wallet)
+            .catch((error) => {
+                if (!this.config.dryRun) throw error;
+                estimateError = BlockchainService.errorMessage(error);
+                return this.payload.request(lane.wallet, false);
+            });
 
-        // Check if we have valid cached gas data
+        return {
+            tx: this.buildTransaction(request, nonce, fees),
+            request,
+            fees,
+            gasDataUpdatedAt: gasData.lastUpdated,
+            estimateError,
+        };
+    }
+
+    /**
+     * Signs a transaction inline and sends it; used for replacements and
+     * nonce gap fills, which can't be prepared ahead.
+     */
+    private async submitTransaction(
+        wallet: ethers.Wallet,
+        tx: ethers.TransactionRequest,
+        route: SubmissionRoute = 'public',
+        targetBlock = 0
+    ): Promise<Omit<TransactionAttempt, 'fees' | 'submittedBlock'>> {
+        const signed = await TransactionPresigner.sign(wallet, tx);
+        const submission = await this.broadcastTransaction(
+            signed.signedTx,
+            route,
+            targetBlock
+        );
+        return {
+            ...submission,
+            signedAt: signed.signedAt,
+            signingMs: signed.signingMs,
+            presigned: false,
+        };
+    }
+
+    /**
+     * Picks public or relay submission for the next send; `alternate`
+     * sends every other transaction publicly to compare both in one run.
+     */
+    private nextRoute(): SubmissionRoute {
+        if (!this.relay) return 'public';
         if (
-            this.cachedGasData &&
-            now - this.cachedGasData.lastUpdated < this.GAS_CACHE_TTL
+            this.config.relayRoute === 'alternate' &&
+            this.routedSends++ % 2 === 1
         ) {
-            return { gasPrice: this.cachedGasData.gasPrice, cached: true };
+            return 'public';
         }
+        return this.relay.mode;
+    }
 
-        // Fetch fresh gas data
-        console.log('🔄 Fetching fresh gas data...');
-        const feeData = await this.provider.getFeeData();
-        const gasPrice =
-            feeData.gasPrice ||
-            ethers.parseUnits(`${this.config.gasPriceGwei}`, 'gwei');
+    /**
+     * Sends a signed transaction to the RPC, or races it across all
+     * broadcast endpoints when several are configured, or hands it to the
+     * private relay for relay routes. Submission and acknowledgement times
+     * are recorded for the latency breakdown.
+     */
+    private async broadcastTransaction(
+        signedTx: string,
+        route: SubmissionRoute = 'public',
+        targetBlock = 0
+    ): Promise<
+        Pick<
+            TransactionAttempt,
+            | 'hash'
+            | 'submissions'
+            | 'submittedAt'
+            | 'acknowledgedAt'
+            | 'signedTx'
+        >
+    > {
+        // Private orderflow should stay unseen; misses confirm it did
+        this.mempoolObserver?.watch(ethers.keccak256(signedTx));
+
+        // Capture timestamp right before sending
+        const submittedAt = Date.now();
+        if (route !== 'public') {
+            const hash = await this.relay!.send(signedTx, targetBlock);
+            return {
+                hash,
+                submittedAt,
+                acknowledgedAt: Date.now(),
+                ...(route === 'bundle' && { signedTx }),
+            };
+        }
+        if (!this.broadcastRace) {
+            const response = await this.provider.broadcastTransaction(signedTx);
+            return {
+                hash: response.hash,
+                submittedAt,
+                acknowledgedAt: Date.now(),
+            };
+        }
 
-        // Cache the gas data
-        this.cachedGasData = {
-            gasPrice,
-            maxFeePerGas: feeData.maxFeePerGas || undefined,
-            maxPriorityFeePerGas: feeData.maxPriorityFeePerGas || undefined,
-            lastUpdated: now,
+        const { hash, submissions } = await this.broadcastRace.broadcast(
+            signedTx
+        );
+        const accepted = submissions.filter((s) => s.accepted);
+        return {
+            hash,
+            submissions,
+            submittedAt,
+            acknowledgedAt:
+                submittedAt + Math.min(...accepted.map((s) => s.latencyMs)),
         };
+    }
 
-        return { gasPrice, cached: false };
+    /**
+     * Dry run: checks the signed transaction against the pending block with
+     * `eth_call` and `eth_estimateGas` and logs what would have been sent.
+     */
+    private async simulateTransaction(
+        lane: SenderLane,
+        signed: SignedTransaction,
+        blockNumber: number,
+        burstIndex: number
+    ): Promise<void> {
+        const tx = ethers.Transaction.from(signed.signedTx);
+        const call: ethers.TransactionRequest = {
+            from: lane.wallet.address,
+            to: tx.to,
+            data: tx.data,
+            value: tx.value,
+            gasLimit: tx.gasLimit,
+            ...(tx.type === 2
+                ? {
+                      maxFeePerGas: tx.maxFeePerGas,
+                      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+                  }
+                : { gasPrice: tx.gasPrice }),
+            blockTag: 'pending',
+        };
+
+        const simulation: SimulatedTransaction = {
+            hash: signed.hash,
+            nonce: signed.nonce,
+            sender: lane.wallet.address,
+            sentBlockNumber: blockNumber,
+            burstIndex,
+            fees: signed.fees,
+            payload: this.payload.tag,
+            gasLimit: Number(tx.gasLimit),
+        };
+        if (signed.estimateError) {
+            simulation.error = signed.estimateError;
+        } else {
+            try {
+                simulation.returnData = await this.provider.call(call);
+                simulation.estimatedGas = Number(
+                    await this.provider.estimateGas(call)
+                );
+            } catch (error) {
+                simulation.error = BlockchainService.errorMessage(error);
+            }
+        }
+        this.simulations.push(simulation);
+
+        this.logger.log(`🧪 Dry run, not broadcast: ${signed.hash}`);
+        this.logger.log(`   ${FeeStrategy.describe(signed.fees)}`);
+        this.logger.log(
+            `   Nonce: ${signed.nonce}${
+                this.senders.lanes.length > 1
+                    ? ` (sender ${SenderPool.label(lane.wallet.address)})`
+                    : ''
+            }`
+        );
+        this.logger.log(
+            `   Payload: ${simulation.payload}, gas limit ${simulation.gasLimit}`
+        );
+        if (simulation.error) {
+            this.logger.log(`   Simulation: ❌ ${simulation.error}`);
+        } else {
+            this.logger.log(
+                `   Simulation: ✅ eth_call returned ${
+                    simulation.returnData === '0x'
+                        ? 'no data'
+                        : simulation.returnData
+                }, estimated gas ${simulation.estimatedGas}`
+            );
+        }
+        this.logger.log(
+            `📊 Transaction count: ${this.sentTransactionCount}/${this.config.transactionCount}`
+        );
+        this.emit('txSimulated', simulation);
     }
 
-    private async getCachedNonce(): Promise<{
-        nonce: number;
-        cached: boolean;
-    }> {
+    private completeDryRun(): void {
+        const failed = this.simulations.filter((s) => s.error);
+        this.logger.log(`\n📊 DRY RUN SUMMARY`);
+        this.logger.log('==========================================');
+        this.logger.log(`Transactions simulated: ${this.simulations.length}`);
+        this.logger.log(`Simulations failed: ${failed.length}`);
+        failed.forEach((s) =>
+            this.logger.log(
+                `   Block #${s.sentBlockNumber}, nonce ${s.nonce}: ${s.error}`
+            )
+        );
+
+        this.close();
+        this.logger.log('\n🎉 Dry run completed, nothing was broadcast.');
+        this.emit('completed', this.getResults());
+    }
+
+    private logSubmissions(submissions: EndpointSubmission[]): void {
+        for (const submission of submissions) {
+            this.logger.log(
+                `   ${submission.accepted ? '✅' : '❌'} ${submission.url}: ${
+                    submission.latencyMs
+                }ms${submission.error ? ` (${submission.error})` : ''}`
+            );
+        }
+    }
+
+    private buildTransaction(
+        request: ethers.TransactionRequest,
+        nonce: number,
+        fees: FeeParams
+    ): ethers.TransactionRequest {
+        return {
+            ...request,
+            nonce,
+            type: fees.type,
+            gasPrice: fees.gasPrice,
+            maxFeePerGas: fees.maxFeePerGas,
+            maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        };
+    }
+
+    private async getCachedGasData(
+        force = false
+    ): Promise<CachedGasData & { cached: boolean }> {
         const now = Date.now();
 
-        // Check if we have valid cached nonce
+        // Check if we have valid cached gas data
         if (
-            this.cachedNonce !== null &&
-            now - this.cachedNonce.lastUpdated < this.NONCE_CACHE_TTL
+            !force &&
+            this.cachedGasData &&
+            now - this.cachedGasData.lastUpdated < this.GAS_CACHE_TTL
         ) {
-            return { nonce: this.cachedNonce.nonce, cached: true };
+            return { ...this.cachedGasData, cached: true };
         }
 
-        // Fetch fresh nonce
-        console.log('🔄 Fetching fresh nonce...');
-        const nonce = await this.wallet.getNonce();
-
-        // Cache the nonce
-        this.cachedNonce = { nonce, lastUpdated: now };
+        // Fetch fresh gas data
+        this.logger.log('🔄 Fetching fresh gas data...');
+        this.cachedGasData = {
+            ...(await FeeStrategy.fetchGasData(
+                this.provider,
+                this.config,
+                this.logger
+            )),
+            lastUpdated: now,
+        };
 
-        return { nonce, cached: false };
+        return { ...this.cachedGasData, cached: false };
     }
 
     private startTransactionMonitoring(): void {
-        setInterval(async () => {
+        // Check every 2 seconds
+        this.repeat(2000, async () => {
             if (this.pendingTransactions.size === 0) return;
 
-            for (const [hash, info] of this.pendingTransactions.entries()) {
+            for (const [key, info] of this.pendingTransactions.entries()) {
                 try {
-                    const receipt = await this.provider.getTransactionReceipt(
-                        hash
-                    );
+                    const receipt = await this.findReceipt(info);
 
                     if (receipt) {
                         await this.processConfirmedTransaction(
-                            hash,
+                            receipt.hash,
                             receipt,
                             info
                         );
-                        this.pendingTransactions.delete(hash);
+                        this.pendingTransactions.delete(key);
                     }
                 } catch (error) {
                     // Transaction still pending
                 }
             }
-        }, 2000); // Check every 2 seconds
+
+            if (this.config.feeBumpAfterBlocks > 0) {
+                await this.bumpStuckTransactions();
+            }
+
+            if (this.stopped && this.isIdle()) {
+                this.close();
+                this.emit('stopped');
+            }
+        });
+    }
+
+    private async findReceipt(
+        info: PendingTransaction
+    ): Promise<ethers.TransactionReceipt | null> {
+        // Newest attempt first: a replacement is the most likely to be mined
+        for (const attempt of [...info.attempts].reverse()) {
+            if (this.broadcastRace) {
+                const found = await this.broadcastRace.findReceipt(
+                    attempt.hash,
+                    attempt.submissions || []
+                );
+                if (found) {
+                    info.firstReceiptEndpoint = found.url;
+                    return found.receipt;
+                }
+                continue;
+            }
+
+            const receipt = await this.provider.getTransactionReceipt(
+                attempt.hash
+            );
+            if (receipt) return receipt;
+        }
+        return null;
+    }
+
+    private async bumpStuckTransactions(): Promise<void> {
+        if (this.pendingTransactions.size === 0) return;
+
+        let head: number;
+        try {
+            head = await this.provider.getBlockNumber();
+        } catch (error) {
+            this.logger.warn(
+                '⚠️ Failed to fetch block number for fee bump:',
+                error
+            );
+            return;
+        }
+
+        for (const info of this.pendingTransactions.values()) {
+            const lastAttempt = info.attempts[info.attempts.length - 1];
+            if (
+                info.bumpInFlight ||
+                info.bumpCeilingReached ||
+                head - lastAttempt.submittedBlock <
+                    this.config.feeBumpAfterBlocks
+            ) {
+                continue;
+            }
+
+            info.bumpInFlight = true;
+            try {
+                await this.replaceTransaction(info, head);
+            } finally {
+                info.bumpInFlight = false;
+            }
+        }
+    }
+
+    private async replaceTransaction(
+        info: PendingTransaction,
+        head: number
+    ): Promise<void> {
+        const originalHash = info.attempts[0].hash;
+
+        try {
+            const gasData = await this.getCachedGasData();
+            const market = FeeStrategy.resolve(this.config, gasData);
+            const fees = FeeStrategy.bump(this.config, info.fees, market);
+            if (!fees) {
+                info.bumpCeilingReached = true;
+                this.logger.warn(
+                    `⚠️ Fee ceiling reached for ${originalHash} (nonce ${info.nonce}), no further replacements`
+                );
+                return;
+            }
+
+            const lane = this.senders.get(info.sender)!;
+            const submission = await this.submitTransaction(
+                lane.wallet,
+                this.buildTransaction(info.request, info.nonce, fees),
+                info.route,
+                head + 1
+            );
+            if (info.route !== 'public') info.relaySubmissions++;
+            const { hash } = submission;
+
+            info.attempts.push({
+                ...submission,
+                fees,
+                submittedBlock: head,
+            });
+            info.fees = fees;
+            this.metrics.feeBumps.inc(this.metrics.labels);
+
+            this.logger.log(
+                `\n⛽ Replaced stuck transaction ${originalHash} (attempt ${info.attempts.length})`
+            );
+            this.logger.log(`   New hash: ${hash}`);
+            this.logger.log(`   ${FeeStrategy.describe(fees)}`);
+            this.logger.log(`   Nonce: ${info.nonce}`);
+        } catch (error) {
+            // The original may have been mined in the meantime ("nonce too low")
+            this.logger.error(
+                `❌ Error replacing transaction ${originalHash}:`,
+                error
+            );
+        }
+    }
+
+    /**
+     * A bundle only lands in the block it targets, so every pending bundle
+     * is re-sent for the block after each new head until it is included.
+     * The head may already hold it before the receipt check has run.
+     */
+    private async resendBundles(head: number): Promise<void> {
+        for (const info of this.pendingTransactions.values()) {
+            const attempt = info.attempts[info.attempts.length - 1];
+            if (info.route !== 'bundle' || !attempt.signedTx) continue;
+
+            try {
+                if (await this.provider.getTransactionReceipt(attempt.hash)) {
+                    continue;
+                }
+                await this.relay!.send(attempt.signedTx, head + 1);
+                info.relaySubmissions++;
+            } catch (error) {
+                this.logger.warn(
+                    `⚠️ Failed to re-send bundle for ${attempt.hash}:`,
+                    error
+                );
+            }
+        }
+    }
+
+    private async handleReorg(event: ReorgEvent): Promise<void> {
+        this.reorgEvents.push(event);
+        this.metrics.reorgs.inc(this.metrics.labels);
+        this.metrics.reorgDepth.observe(event.depth, this.metrics.labels);
+
+        this.logger.warn(
+            `\n🔀 Chain reorg detected at block #${event.newHeadNumber}: depth ${event.depth}, common ancestor #${event.commonAncestor}`
+        );
+        this.logger.warn(
+            `   Replaced blocks: ${event.replacedBlocks
+                .map((b) => `#${b.number}`)
+                .join(', ')}`
+        );
+
+        // Re-check every confirmation that may have been in a replaced block
+        for (const metrics of [...this.confirmationMetrics]) {
+            if (metrics.confirmedBlockNumber <= event.commonAncestor) continue;
+
+            const hash = metrics.transactionHash;
+            const receipt = await this.provider
+                .getTransactionReceipt(hash)
+                .catch(() => null);
+            if (receipt && receipt.blockHash === metrics.confirmedBlockHash) {
+                continue;
+            }
+
+            const info = this.confirmedTransactions.get(hash);
+            if (!info) continue;
+
+            this.confirmationMetrics.splice(
+                this.confirmationMetrics.indexOf(metrics),
+                1
+            );
+            this.confirmedTransactions.delete(hash);
+            info.reorgCount++;
+            this.pendingTransactions.set(hash, info);
+            event.affectedTransactions.push(hash);
+
+            this.logger.warn(
+                `   ↩️  ${hash} was reorged out of block #${metrics.confirmedBlockNumber}, moved back to pending`
+            );
+        }
     }
 
     private startGasDataRefresh(): void {
-        // Refresh gas data and nonce every 20 seconds to keep them current
-        setInterval(async () => {
+        // Refresh gas data and nonce every 20 seconds, ahead of the cache TTL,
+        // so the block handler never waits for them
+        this.repeat(20000, async () => {
             try {
-                await this.getCachedGasData();
-                await this.getCachedNonce();
+                await this.getCachedGasData(true);
+                await this.senders.sync();
+
+                if (this.shouldContinue()) {
+                    await this.senders.refresh();
+                } else if (!this.config.dryRun) {
+                    // Once no more sends are planned, gaps would block later txs forever
+                    for (const lane of this.senders.lanes) {
+                        await this.fillNonceGaps(lane);
+                    }
+                }
             } catch (error) {
-                console.warn('⚠️ Failed to refresh gas data or nonce:', error);
+                this.logger.warn(
+                    '⚠️ Failed to refresh gas data or nonce:',
+                    error
+                );
             }
-        }, 20000); // Every 20 seconds
+        });
+    }
+
+    /**
+     * Runs `task` every `intervalMs`. The next run is only scheduled once
+     * the current one has finished, so a slow run (a lagging RPC, a fee
+     * bump) never overlaps the next one and handles the same transaction
+     * twice. `close()` ends the loop, even while a run is in progress.
+     */
+    private repeat(intervalMs: number, task: () => Promise<void>): void {
+        let timer: NodeJS.Timeout;
+        const run = async () => {
+            try {
+                await task();
+            } catch (error) {
+                this.reportError('❌ Error in background task:', error);
+            }
+
+            // Cleared by close() while the task ran
+            if (!this.timers.includes(timer)) return;
+            this.timers = this.timers.filter((t) => t !== timer);
+            timer = setTimeout(run, intervalMs);
+            this.timers.push(timer);
+        };
+
+        timer = setTimeout(run, intervalMs);
+        this.timers.push(timer);
+    }
+
+    private async fillNonceGaps(lane: SenderLane): Promise<void> {
+        const { wallet, nonceManager } = lane;
+        for (const nonce of nonceManager.getGaps()) {
+            try {
+                const gasData = await this.getCachedGasData();
+                const fees = FeeStrategy.resolve(this.config, gasData);
+                const { hash } = await this.submitTransaction(
+                    wallet,
+                    this.buildTransaction(
+                        {
+                            to: wallet.address,
+                            value: BigInt(0),
+                            gasLimit: 21000,
+                        },
+                        nonce,
+                        fees
+                    )
+                );
+                nonceManager.markSent(nonce);
+                this.logger.log(
+                    `🩹 Filled nonce gap ${nonce} of ${SenderPool.label(
+                        wallet.address
+                    )} with self-transfer ${hash}`
+                );
+            } catch (error) {
+                const kind = await nonceManager
+                    .handleSendError(nonce, error)
+                    .catch(() => 'other');
+                this.logger.warn(
+                    `⚠️ Failed to fill nonce gap ${nonce} (${kind})`
+                );
+            }
+        }
     }
 
     private async processConfirmedTransaction(
         hash: string,
         receipt: ethers.TransactionReceipt,
-        info: {
-            sentBlock: number;
-            startTime: number;
-            sentBlockTimestamp: string;
-            sentTimestamp: number;
-        }
+        info: PendingTransaction
     ): Promise<void> {
+        const receiptObservedAt = Date.now();
         const blocksToConfirm = receipt.blockNumber - info.sentBlock;
-        const confirmationTimeMs = Date.now() - info.startTime;
+        const confirmationTimeMs = receiptObservedAt - info.startTime;
 
-        // Get the confirmed block data to get its timestamp
+        // Get the confirmed block for its timestamp, fullness and base fee
         const confirmedBlock = await this.provider.getBlock(
             receipt.blockNumber!
         );
+        const effectiveGasPrice = receipt.gasPrice || BigInt(0);
+        const baseFeePerGas = confirmedBlock?.baseFeePerGas ?? undefined;
+
+        // Work out which submission was mined and what the bumps cost
+        const attemptIndex = Math.max(
+            info.attempts.findIndex((a) => a.hash === hash),
+            0
+        );
+        const minedAttempt = info.attempts[attemptIndex];
+        const minedFees = minedAttempt.fees;
+        const extraPrice =
+            FeeStrategy.offeredPrice(minedFees) -
+            FeeStrategy.offeredPrice(info.attempts[0].fees);
+        const feeBumpCost =
+            extraPrice > BigInt(0) ? extraPrice * receipt.gasUsed : BigInt(0);
+
+        // Timeline of the original submission, from block production onwards.
+        // Block timestamps have one-second resolution, so stages measured
+        // against one are clamped at 0 instead of coming out slightly negative
+        const firstAttempt = info.attempts[0];
+        const inclusionTimestampMs = confirmedBlock
+            ? confirmedBlock.timestamp * 1000
+            : undefined;
+        const mempoolSeenAt =
+            this.mempoolObserver?.firstSeen(firstAttempt.hash) ?? null;
 
         const metrics: ConfirmationMetrics = {
             transactionHash: hash,
@@ -351,82 +1181,251 @@ export class BlockchainService {
             blocksToConfirm,
             confirmationTimeMs,
             gasUsed: receipt.gasUsed,
-            effectiveGasPrice: receipt.gasPrice || BigInt(0),
+            effectiveGasPrice,
             sentBlockTimestamp: info.sentBlockTimestamp || '',
             confirmedBlockTimestamp:
                 confirmedBlock?.timestamp?.toString() || '',
             sentTimestamp: info.sentTimestamp,
+            confirmedBlockHash: receipt.blockHash,
+            reorged: info.reorgCount > 0,
+            reorgCount: info.reorgCount,
+            txType: minedFees.type === 2 ? 'eip1559' : 'legacy',
+            maxFeePerGas: minedFees.maxFeePerGas,
+            maxPriorityFeePerGas: minedFees.maxPriorityFeePerGas,
+            baseFeePerGas,
+            effectivePriorityFee:
+                baseFeePerGas !== undefined
+                    ? effectiveGasPrice - baseFeePerGas
+                    : undefined,
+            feeTier: info.attempts[0].fees.tier,
+            originalHash: info.attempts[0].hash,
+            attemptMined: attemptIndex + 1,
+            replacementHashes: info.attempts.slice(1).map((a) => a.hash),
+            feeBumpCost,
+            broadcastResults: minedAttempt.submissions,
+            firstReceiptEndpoint: info.firstReceiptEndpoint,
+            txIndex: receipt.index,
+            confirmedBlockTxCount: confirmedBlock?.transactions.length,
+            confirmedBlockGasUsedRatio: confirmedBlock
+                ? BlockchainService.gasUsedRatio(
+                      Number(confirmedBlock.gasUsed),
+                      Number(confirmedBlock.gasLimit)
+                  )
+                : undefined,
+            sentBlockGasUsedRatio: info.sentBlockGasUsedRatio,
+            sentBlockFull:
+                info.sentBlockGasUsedRatio !== undefined
+                    ? info.sentBlockGasUsedRatio >= FULL_BLOCK_RATIO
+                    : undefined,
+            blockNotificationLagMs: Math.max(
+                0,
+                info.blockReceivedAt -
+                    parseInt(info.sentBlockTimestamp || '0', 16) * 1000
+            ),
+            preparationMs: firstAttempt.submittedAt - info.blockReceivedAt,
+            submissionMs:
+                firstAttempt.acknowledgedAt - firstAttempt.submittedAt,
+            inclusionMs:
+                inclusionTimestampMs !== undefined
+                    ? Math.max(
+                          0,
+                          inclusionTimestampMs - firstAttempt.acknowledgedAt
+                      )
+                    : undefined,
+            receiptLagMs:
+                inclusionTimestampMs !== undefined
+                    ? Math.max(0, receiptObservedAt - inclusionTimestampMs)
+                    : undefined,
+            mempoolSeen: this.mempoolObserver
+                ? mempoolSeenAt !== null
+                : undefined,
+            timeToMempoolMs:
+                mempoolSeenAt !== null
+                    ? mempoolSeenAt - firstAttempt.submittedAt
+                    : undefined,
+            presigned: firstAttempt.presigned,
+            signingMs: firstAttempt.signingMs,
+            schedule: info.schedule,
+            burstIndex: info.burstIndex,
+            payload: this.payload.tag,
+            sender: info.sender,
+            route: info.route,
+            relaySubmissions:
+                info.route !== 'public' ? info.relaySubmissions : undefined,
+            gasLimit: Number(info.request.gasLimit),
         };
 
         this.confirmationMetrics.push(metrics);
+        this.confirmedTransactions.set(hash, info);
+        // A reorged transaction was already counted when it first confirmed
+        if (info.reorgCount === 0) {
+            this.recordConfirmationMetrics(metrics, receipt.status === 0);
+        }
 
-        console.log(`\n✅ Transaction confirmed: ${hash}`);
-        console.log(`   Sent in block: #${info.sentBlock}`);
-        console.log(`   Confirmed in block: #${receipt.blockNumber}`);
-        console.log(`   Blocks to confirm: ${blocksToConfirm}`);
-        console.log(`   Confirmation time: ${confirmationTimeMs}ms`);
-        console.log(`   Gas used: ${metrics.gasUsed.toString()}`);
-        console.log(
+        this.logger.log(`\n✅ Transaction confirmed: ${hash}`);
+        this.logger.log(`   Sent in block: #${info.sentBlock}`);
+        this.logger.log(`   Confirmed in block: #${receipt.blockNumber}`);
+        this.logger.log(`   Blocks to confirm: ${blocksToConfirm}`);
+        this.logger.log(`   Confirmation time: ${confirmationTimeMs}ms`);
+        this.logger.log(`   ${BlockchainService.describePosition(metrics)}`);
+        this.logger.log(`   ${BlockchainService.describeTimeline(metrics)}`);
+        if (metrics.mempoolSeen !== undefined) {
+            this.logger.log(
+                `   Mempool: ${
+                    metrics.mempoolSeen
+                        ? `seen ${metrics.timeToMempoolMs}ms after submission`
+                        : 'never seen by the observer'
+                }`
+            );
+        }
+        if (metrics.replacementHashes.length > 0) {
+            this.logger.log(
+                `   Mined attempt: ${metrics.attemptMined}/${
+                    info.attempts.length
+                } (original ${
+                    metrics.originalHash
+                }), bump cost: ${ethers.formatEther(feeBumpCost)} ETH`
+            );
+        }
+        if (metrics.firstReceiptEndpoint) {
+            this.logger.log(
+                `   First receipt from: ${metrics.firstReceiptEndpoint}`
+            );
+        }
+        this.logger.log(`   Gas used: ${metrics.gasUsed.toString()}`);
+        this.logger.log(
             `   Effective gas price: ${ethers.formatUnits(
                 metrics.effectiveGasPrice,
                 'gwei'
             )} gwei`
         );
+        if (metrics.effectivePriorityFee !== undefined) {
+            this.logger.log(
+                `   Effective priority fee: ${ethers.formatUnits(
+                    metrics.effectivePriorityFee,
+                    'gwei'
+                )} gwei (base fee ${ethers.formatUnits(
+                    metrics.baseFeePerGas || BigInt(0),
+                    'gwei'
+                )} gwei)`
+            );
+        }
+
+        if (receipt.status === 0) {
+            this.emit('txFailed', {
+                reason: 'reverted',
+                sender: info.sender,
+                sentBlockNumber: info.sentBlock,
+                hash,
+                metrics,
+            });
+        } else {
+            this.emit('txConfirmed', metrics);
+        }
 
         // Print summary if we've completed all transactions
         if (this.confirmationMetrics.length === this.config.transactionCount) {
             this.printFinalSummary();
-            console.log(
-                '\n🎉 All transactions completed! Exiting in 1 seconds...'
-            );
+            this.saveResults();
+            this.close();
 
-            // Auto-exit after showing the summary
-            setTimeout(() => {
-                console.log('👋 Goodbye!');
-                process.exit(0);
-            }, 1000);
+            this.logger.log('\n🎉 All transactions completed!');
+            this.emit('completed', this.getResults());
+        }
+    }
+
+    private recordConfirmationMetrics(
+        metrics: ConfirmationMetrics,
+        reverted: boolean
+    ): void {
+        this.metrics.transactionsConfirmed.inc(this.metrics.labels);
+        this.metrics.blocksToConfirm.observe(
+            metrics.blocksToConfirm,
+            this.metrics.labels
+        );
+        this.metrics.confirmationTimeMs.observe(
+            metrics.confirmationTimeMs,
+            this.metrics.labels
+        );
+        if (reverted) {
+            this.metrics.transactionsFailed.inc(this.metrics.labels);
+        }
+        if (metrics.timeToMempoolMs !== undefined) {
+            this.metrics.timeToMempoolMs.observe(
+                metrics.timeToMempoolMs,
+                this.metrics.labels
+            );
+        } else if (metrics.mempoolSeen === false) {
+            this.metrics.mempoolMisses.inc(this.metrics.labels);
         }
     }
 
     private printFinalSummary(): void {
-        console.log('\n📊 FINAL TRANSACTION CONFIRMATION SUMMARY');
-        console.log('==========================================');
-
-        const avgBlocksToConfirm =
-            this.confirmationMetrics.reduce(
-                (sum, m) => sum + m.blocksToConfirm,
-                0
-            ) / this.confirmationMetrics.length;
-        const avgConfirmationTime =
-            this.confirmationMetrics.reduce(
-                (sum, m) => sum + m.confirmationTimeMs,
-                0
-            ) / this.confirmationMetrics.length;
-        const totalGasUsed = this.confirmationMetrics.reduce(
-            (sum, m) => sum + m.gasUsed,
-            BigInt(0)
+        this.logger.log(
+            `\n📊 FINAL TRANSACTION CONFIRMATION SUMMARY${
+                this.config.chainName ? ` (${this.config.chainName})` : ''
+            }`
         );
+        this.logger.log('==========================================');
 
-        console.log(`Total transactions sent: ${this.sentTransactionCount}`);
-        console.log(
-            `Total transactions confirmed: ${this.confirmationMetrics.length}`
+        const summary = RunReport.summarize(this.getResults());
+
+        this.logger.log(
+            `Total transactions sent: ${this.sentTransactionCount}`
         );
-        console.log(
-            `Average blocks to confirm: ${avgBlocksToConfirm.toFixed(2)}`
+        this.logger.log(
+            `Total transactions confirmed: ${this.confirmationMetrics.length}`
         );
-        console.log(
-            `Average confirmation time: ${avgConfirmationTime.toFixed(2)}ms`
+        this.logger.log(`Total gas used: ${summary.totalGasUsed.toString()}`);
+        const bumped = this.confirmationMetrics.filter(
+            (m) => m.replacementHashes.length > 0
         );
-        console.log(`Total gas used: ${totalGasUsed.toString()}`);
+        if (bumped.length > 0) {
+            const totalBumpCost = bumped.reduce(
+                (sum, m) => sum + m.feeBumpCost,
+                BigInt(0)
+            );
+            this.logger.log(
+                `Fee-bumped transactions: ${
+                    bumped.length
+                } (total bump cost ${ethers.formatEther(totalBumpCost)} ETH)`
+            );
+        }
+        if (this.reorgEvents.length > 0) {
+            this.logger.log(
+                `Reorgs detected: ${
+                    this.reorgEvents.length
+                } (max depth ${Math.max(
+                    ...this.reorgEvents.map((e) => e.depth)
+                )}, ${
+                    this.confirmationMetrics.filter((m) => m.reorged).length
+                } transactions re-confirmed after a reorg)`
+            );
+        }
+        RunReport.printConnection(summary, this.logger);
 
-        console.log('\nDetailed results:');
+        RunReport.printStatistics(summary, this.logger);
+
+        if (this.broadcastRace) {
+            this.printBroadcastSummary(this.broadcastRace.urls);
+        }
+
+        this.logger.log('\nDetailed results:');
         this.confirmationMetrics.forEach((metrics, index) => {
-            console.log(`\n${index + 1}. ${metrics.transactionHash}`);
-            console.log(`   Sent in block: #${metrics.sentBlockNumber}`);
-            console.log(
+            this.logger.log(`\n${index + 1}. ${metrics.transactionHash}`);
+            this.logger.log(`   Sent in block: #${metrics.sentBlockNumber}`);
+            this.logger.log(
                 `   Confirmed in block: #${metrics.confirmedBlockNumber}`
             );
-            console.log(`   Blocks to confirm: ${metrics.blocksToConfirm}`);
+            this.logger.log(`   Blocks to confirm: ${metrics.blocksToConfirm}`);
+            this.logger.log(
+                `   ${BlockchainService.describePosition(metrics)}`
+            );
+            if (metrics.reorged) {
+                this.logger.log(
+                    `   Reorged: ${metrics.reorgCount} time(s) before final inclusion`
+                );
+            }
 
             // Calculate timestamps
             const sentBlockTimestamp = new Date(
@@ -437,35 +1436,182 @@ export class BlockchainService {
             ).toISOString();
             const sentTimestamp = new Date(metrics.sentTimestamp).toISOString();
 
-            console.log(`   Sent block timestamp: ${sentBlockTimestamp}`);
-            console.log(`   Sent timestamp: ${sentTimestamp}`);
-            console.log(
+            this.logger.log(`   Sent block timestamp: ${sentBlockTimestamp}`);
+            this.logger.log(`   Sent timestamp: ${sentTimestamp}`);
+            this.logger.log(
                 `   Confirmed block timestamp: ${confirmedBlockTimestamp}`
             );
+            if (metrics.txType === 'eip1559') {
+                this.logger.log(
+                    `   Priority fee offered: ${ethers.formatUnits(
+                        metrics.maxPriorityFeePerGas || BigInt(0),
+                        'gwei'
+                    )} gwei, paid: ${ethers.formatUnits(
+                        metrics.effectivePriorityFee || BigInt(0),
+                        'gwei'
+                    )} gwei`
+                );
+            }
         });
     }
 
+    // ethers' short message, e.g. "execution reverted", without the payload
+    private static errorMessage(error: unknown): string {
+        return (
+            (error as { shortMessage?: string }).shortMessage ??
+            String((error as Error).message ?? error)
+        );
+    }
+
+    private static gasUsedRatio(
+        gasUsed: number,
+        gasLimit: number
+    ): number | undefined {
+        return gasLimit > 0 ? gasUsed / gasLimit : undefined;
+    }
+
+    private static describePosition(metrics: ConfirmationMetrics): string {
+        const percent = (ratio?: number) =>
+            ratio !== undefined ? `${(ratio * 100).toFixed(1)}%` : 'n/a';
+        return `Position: index ${metrics.txIndex}${
+            metrics.confirmedBlockTxCount !== undefined
+                ? ` of ${metrics.confirmedBlockTxCount} txs`
+                : ''
+        } (block ${percent(
+            metrics.confirmedBlockGasUsedRatio
+        )} gas used), sent block ${percent(
+            metrics.sentBlockGasUsedRatio
+        )} gas used${metrics.sentBlockFull ? ' (full)' : ''}`;
+    }
+
+    private static describeTimeline(metrics: ConfirmationMetrics): string {
+        const stage = (ms?: number) => (ms !== undefined ? `${ms}ms` : 'n/a');
+        return `Timeline: block->notify ${stage(
+            metrics.blockNotificationLagMs
+        )}, notify->sent ${stage(metrics.preparationMs)}, sent->ack ${stage(
+            metrics.submissionMs
+        )}, ack->included ${stage(
+            metrics.inclusionMs
+        )}, included->receipt ${stage(metrics.receiptLagMs)}`;
+    }
+
+    private printBroadcastSummary(urls: string[]): void {
+        this.logger.log('\nBroadcast endpoints:');
+        for (const url of urls) {
+            const submissions = this.confirmationMetrics
+                .flatMap((m) => m.broadcastResults || [])
+                .filter((s) => s.url === url);
+            const accepted = submissions.filter((s) => s.accepted);
+            const avgLatency =
+                accepted.reduce((sum, s) => sum + s.latencyMs, 0) /
+                (accepted.length || 1);
+            const firstReceipts = this.confirmationMetrics.filter(
+                (m) => m.firstReceiptEndpoint === url
+            ).length;
+
+            this.logger.log(`   ${url}`);
+            this.logger.log(
+                `      Accepted: ${accepted.length}/${
+                    submissions.length
+                }, avg submit latency: ${avgLatency.toFixed(
+                    2
+                )}ms, first receipt: ${firstReceipts}`
+            );
+        }
+    }
+
+    /**
+     * Writes the run and its confirmation metrics to the configured result
+     * files. Safe to call more than once; later calls overwrite earlier ones.
+     */
+    public saveResults(): void {
+        // A dry run confirms nothing, so there is nothing to save
+        if (this.config.resultsFormats.length === 0 || this.config.dryRun) {
+            return;
+        }
+
+        try {
+            const files = this.resultsWriter.write(
+                this.chainId,
+                this.senders.addresses,
+                this.sentTransactionCount,
+                this.confirmationMetrics,
+                this.reorgEvents,
+                this.getConnectionStats()
+            );
+            files.forEach((file) =>
+                this.logger.log(`💾 Results saved: ${file}`)
+            );
+        } catch (error) {
+            this.reportError('❌ Error saving results:', error);
+        }
+    }
+
+    /**
+     * Stops reacting to new blocks. Transactions already sent are still
+     * followed until they confirm, after which the remaining timers are
+     * cleared as in `close()` and `stopped` is emitted.
+     */
     public stop(): void {
-        console.log('\n🛑 Stopping blockchain service...');
+        this.logger.log('\n🛑 Stopping blockchain service...');
 
-        if (this.ws) {
-            this.ws.close();
-            this.ws = null;
+        this.stopped = true;
+        this.blockSource.stop();
+
+        if (this.isIdle()) {
+            this.close();
+            this.logger.log('🔄 Service stopped.');
+            this.emit('stopped');
+        } else {
+            this.logger.log(
+                `🔄 Service stopped, waiting for ${
+                    this.pendingTransactions.size + this.sendsInFlight
+                } pending transaction(s) to confirm.`
+            );
         }
+    }
 
-        this.isConnected = false;
+    /**
+     * Stops block monitoring, the mempool observer, the metrics endpoint,
+     * all background timers and the RPC providers, leaving nothing that
+     * keeps the process alive.
+     */
+    public close(): void {
+        this.senders.discard();
+        this.blockSource.stop();
+        this.mempoolObserver?.stop();
+        this.metricsServer?.stop();
+        this.metricsServer = null;
+        this.clearTimers();
+        this.provider.destroy();
+        this.broadcastRace?.destroy();
+    }
 
-        if (this.confirmationMetrics.length === this.config.transactionCount) {
-            console.log('✅ All transactions completed successfully!');
-            console.log('🎉 Auto-exiting due to completion...');
-            process.exit(0);
+    private clearTimers(): void {
+        this.timers.forEach((timer) => clearTimeout(timer));
+        this.timers = [];
+    }
+
+    /**
+     * Logs an error and passes it to `error` listeners. Without a listener
+     * it is only logged, since an unhandled `error` event would throw.
+     */
+    private reportError(message: string, error: unknown): void {
+        this.logger.error(message, error);
+        if (this.listenerCount('error') > 0) {
+            this.emit(
+                'error',
+                error instanceof Error ? error : new Error(String(error))
+            );
         }
+    }
 
-        console.log('🔄 Service stopped. Press Ctrl+C again to exit.');
+    private isIdle(): boolean {
+        return this.pendingTransactions.size === 0 && this.sendsInFlight === 0;
     }
 
     public isRunning(): boolean {
-        return this.isConnected || this.pendingTransactions.size > 0;
+        return this.blockSource.isActive() || this.pendingTransactions.size > 0;
     }
 
     public shouldContinue(): boolean {
@@ -476,6 +1622,43 @@ export class BlockchainService {
         return this.confirmationMetrics.length === this.config.transactionCount;
     }
 
+    public getSimulations(): SimulatedTransaction[] {
+        return [...this.simulations];
+    }
+
+    public getConfirmationMetrics(): ConfirmationMetrics[] {
+        return [...this.confirmationMetrics];
+    }
+
+    /**
+     * The run so far in the same shape as a results file read back from disk.
+     */
+    public getResults(): SavedRun {
+        return {
+            run: this.resultsWriter.record(
+                this.chainId,
+                this.senders.addresses,
+                this.sentTransactionCount,
+                this.getConnectionStats()
+            ),
+            metrics: [...this.confirmationMetrics],
+            reorgs: [...this.reorgEvents],
+        };
+    }
+
+    public getConnectionStats(): ConnectionStats {
+        return {
+            blockSource: this.blockSource.name,
+            reconnects: this.blockSource.reconnectCount,
+            downtimeMs: this.blockSource.downtimeMs,
+            backfilledBlocks: this.blockSource.backfilledBlocks,
+            ...(this.mempoolObserver && {
+                mempoolReconnects: this.mempoolObserver.reconnectCount,
+                mempoolDowntimeMs: this.mempoolObserver.downtimeMs,
+            }),
+        };
+    }
+
     public getStatus(): { sent: number; confirmed: number; total: number } {
         return {
             sent: this.sentTransactionCount,
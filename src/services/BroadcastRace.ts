@@ -0,0 +1,101 @@
+import { ethers } from 'ethers';
+import { EndpointSubmission } from '../types';
+
+/**
+ * Broadcasts the same signed transaction to several RPC endpoints at once
+ * and records how each endpoint responded.
+ */
+export class BroadcastRace {
+    private providers: { url: string; provider: ethers.JsonRpcProvider }[];
+
+    constructor(urls: string[]) {
+        this.providers = urls.map((url) => ({
+            url,
+            provider: new ethers.JsonRpcProvider(url),
+        }));
+    }
+
+    public get urls(): string[] {
+        return this.providers.map((p) => p.url);
+    }
+
+    /**
+     * Sends the raw transaction to every endpoint in parallel. Resolves as
+     * long as one endpoint accepted it; otherwise rethrows the first error.
+     */
+    public async broadcast(
+        signedTx: string
+    ): Promise<{ hash: string; submissions: EndpointSubmission[] }> {
+        const hash = ethers.keccak256(signedTx);
+        const startedAt = Date.now();
+
+        const results = await Promise.all(
+            this.providers.map(async ({ url, provider }) => {
+                try {
+                    await provider.send('eth_sendRawTransaction', [signedTx]);
+                    return {
+                        submission: {
+                            url,
+                            latencyMs: Date.now() - startedAt,
+                            accepted: true,
+                        },
+                        error: null,
+                    };
+                } catch (error) {
+                    return {
+                        submission: {
+                            url,
+                            latencyMs: Date.now() - startedAt,
+                            accepted: false,
+                            error: (error as Error)?.message || String(error),
+                        },
+                        error,
+                    };
+                }
+            })
+        );
+
+        const submissions: EndpointSubmission[] = results.map(
+            (r) => r.submission
+        );
+        if (!submissions.some((s) => s.accepted)) {
+            throw results[0].error;
+        }
+
+        return { hash, submissions };
+    }
+
+    /**
+     * Asks every endpoint for the receipt, stamping the time each one first
+     * returned it. Returns the receipt and the endpoint that answered first.
+     */
+    public async findReceipt(
+        hash: string,
+        submissions: EndpointSubmission[]
+    ): Promise<{ receipt: ethers.TransactionReceipt; url: string } | null> {
+        let first: { receipt: ethers.TransactionReceipt; url: string } | null =
+            null;
+
+        await Promise.all(
+            this.providers.map(async ({ url, provider }) => {
+                const receipt = await provider
+                    .getTransactionReceipt(hash)
+                    .catch(() => null);
+                if (!receipt) return;
+
+                const submission = submissions.find((s) => s.url === url);
+                if (submission && submission.receiptSeenAt === undefined) {
+                    submission.receiptSeenAt = Date.now();
+                }
+                if (!first) first = { receipt, url };
+            })
+        );
+
+        return first;
+    }
+
+    // Releases every endpoint's provider; later broadcasts fail
+    public destroy(): void {
+        this.providers.forEach(({ provider }) => provider.destroy());
+    }
+}
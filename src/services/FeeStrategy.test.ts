@@ -0,0 +1,76 @@
+import { ethers } from 'ethers';
+import { FeeStrategy } from './FeeStrategy';
+import { MockNode } from '../testing/MockNode';
+import { mockConfig } from '../testing/helpers';
+import { CachedGasData } from '../types';
+
+describe('FeeStrategy', () => {
+    const gwei = (value: number) => ethers.parseUnits(`${value}`, 'gwei');
+    const config = (overrides: Parameters<typeof mockConfig>[1] = {}) =>
+        mockConfig(new MockNode(), overrides);
+    const gasData: CachedGasData = {
+        gasPrice: gwei(20),
+        baseFeePerGas: gwei(10),
+        rewardPercentiles: { 10: gwei(1), 50: gwei(2), 90: gwei(5) },
+        lastUpdated: 0,
+    };
+
+    it('takes the median reward per percentile, skipping empty blocks', () => {
+        const q = (value: number) => ethers.toQuantity(gwei(value));
+        expect(
+            FeeStrategy.rewardPercentiles(
+                {
+                    reward: [
+                        [q(1), q(4)],
+                        [q(0), q(0)],
+                        [q(3), q(8)],
+                        [q(2), q(6)],
+                    ],
+                    gasUsedRatio: [0.5, 0, 0.9, 0.3],
+                },
+                [10, 90]
+            )
+        ).toEqual({ 10: gwei(2), 90: gwei(6) });
+        expect(
+            FeeStrategy.rewardPercentiles({ gasUsedRatio: [0] }, [50])
+        ).toEqual({});
+    });
+
+    it('tips at the configured fee history percentile', () => {
+        const fees = FeeStrategy.resolve(
+            config({ feeStrategy: 'fee-history', feeHistoryPercentile: 90 }),
+            gasData
+        );
+        expect(fees.maxPriorityFeePerGas).toBe(gwei(5));
+        expect(fees.maxFeePerGas).toBe(gwei(25));
+        expect(fees.tier).toBeUndefined();
+    });
+
+    it('rotates between tiers and falls back to the configured tip', () => {
+        const tiers = config({ feeStrategy: 'tiers', priorityFeeGwei: 3 });
+        expect(
+            [0, 1, 2, 3].map((rotation) => {
+                const fees = FeeStrategy.resolve(tiers, gasData, rotation);
+                return [fees.tier, fees.maxPriorityFeePerGas];
+            })
+        ).toEqual([
+            ['p10', gwei(1)],
+            ['p50', gwei(2)],
+            ['p90', gwei(5)],
+            ['p10', gwei(1)],
+        ]);
+        expect(
+            FeeStrategy.resolve(
+                tiers,
+                { ...gasData, rewardPercentiles: undefined },
+                2
+            ).maxPriorityFeePerGas
+        ).toBe(gwei(3));
+        expect(
+            FeeStrategy.rewardPercentilesNeeded({
+                ...tiers,
+                feeTiers: [90, 10, 90],
+            })
+        ).toEqual([10, 90]);
+    });
+});
@@ -0,0 +1,305 @@
+import { ethers } from 'ethers';
+import {
+    BlockReactionConfig,
+    CachedGasData,
+    FeeParams,
+    Logger,
+} from '../types';
+
+interface FeeHistory {
+    reward?: string[][];
+    gasUsedRatio: number[];
+}
+
+export class FeeStrategy {
+    /**
+     * Fetches the gas data fees are resolved from: the provider's fee data,
+     * the latest base fee and, for the fee-history and tiers strategies, the
+     * reward percentiles of recent blocks.
+     */
+    public static async fetchGasData(
+        provider: ethers.JsonRpcProvider,
+        config: BlockReactionConfig,
+        logger: Logger = console
+    ): Promise<CachedGasData> {
+        const percentiles = this.rewardPercentilesNeeded(config);
+        const [feeData, latestBlock, rewardPercentiles] = await Promise.all([
+            provider.getFeeData(),
+            provider.getBlock('latest'),
+            percentiles.length > 0
+                ? this.fetchRewardPercentiles(
+                      provider,
+                      config.feeHistoryBlocks,
+                      percentiles,
+                      logger
+                  )
+                : undefined,
+        ]);
+
+        return {
+            gasPrice:
+                feeData.gasPrice ||
+                ethers.parseUnits(`${config.gasPriceGwei}`, 'gwei'),
+            maxFeePerGas: feeData.maxFeePerGas || undefined,
+            maxPriorityFeePerGas: feeData.maxPriorityFeePerGas || undefined,
+            baseFeePerGas: latestBlock?.baseFeePerGas ?? undefined,
+            ...(rewardPercentiles && { rewardPercentiles }),
+            lastUpdated: Date.now(),
+        };
+    }
+
+    /**
+     * Turns cached gas data into the fee fields of the next transaction,
+     * according to the configured transaction type and fee strategy.
+     * `rotation` picks the tier of the tiers strategy.
+     */
+    public static resolve(
+        config: BlockReactionConfig,
+        gasData: CachedGasData,
+        rotation = 0
+    ): FeeParams {
+        if (config.txType === 'legacy') {
+            return { type: 0, gasPrice: gasData.gasPrice };
+        }
+
+        const baseFeePerGas = gasData.baseFeePerGas;
+        if (baseFeePerGas === undefined) {
+            throw new Error(
+                'TX_TYPE=1559 requires a chain that reports baseFeePerGas'
+            );
+        }
+
+        const configuredTip = ethers.parseUnits(
+            `${config.priorityFeeGwei}`,
+            'gwei'
+        );
+
+        let maxPriorityFeePerGas: bigint;
+        let maxFeePerGas: bigint | undefined;
+        let tier: string | undefined;
+
+        switch (config.feeStrategy) {
+            case 'provider':
+                maxPriorityFeePerGas =
+                    gasData.maxPriorityFeePerGas ?? configuredTip;
+                maxFeePerGas = gasData.maxFeePerGas;
+                break;
+            case 'fixed-tip':
+                maxPriorityFeePerGas = configuredTip;
+                break;
+            case 'base-fee-multiple':
+                maxPriorityFeePerGas = this.multiply(
+                    baseFeePerGas,
+                    config.baseFeeMultiplier
+                );
+                break;
+            // Without fee history (e.g. only empty blocks) the configured tip applies
+            case 'fee-history':
+                maxPriorityFeePerGas =
+                    gasData.rewardPercentiles?.[config.feeHistoryPercentile] ??
+                    configuredTip;
+                break;
+            case 'tiers': {
+                const percentile =
+                    config.feeTiers[rotation % config.feeTiers.length];
+                tier = `p${percentile}`;
+                maxPriorityFeePerGas =
+                    gasData.rewardPercentiles?.[percentile] ?? configuredTip;
+                break;
+            }
+        }
+
+        // Leave room for the base fee to double before the tx becomes unminable
+        if (maxFeePerGas === undefined || maxFeePerGas < maxPriorityFeePerGas) {
+            maxFeePerGas = baseFeePerGas * BigInt(2) + maxPriorityFeePerGas;
+        }
+
+        return {
+            type: 2,
+            maxFeePerGas,
+            maxPriorityFeePerGas,
+            baseFeePerGas,
+            ...(tier && { tier }),
+        };
+    }
+
+    /**
+     * Reward percentiles the configured strategy needs from `eth_feeHistory`,
+     * ascending as the RPC requires; empty when it needs none.
+     */
+    public static rewardPercentilesNeeded(
+        config: BlockReactionConfig
+    ): number[] {
+        if (config.txType !== 'eip1559') return [];
+        switch (config.feeStrategy) {
+            case 'fee-history':
+                return [config.feeHistoryPercentile];
+            case 'tiers':
+                return [...new Set(config.feeTiers)].sort((a, b) => a - b);
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * The median reward of each percentile over the last `blocks` blocks.
+     * Empty blocks report zero rewards and are left out. Failures are logged
+     * and leave strategies to fall back to the configured tip.
+     */
+    public static async fetchRewardPercentiles(
+        provider: ethers.JsonRpcProvider,
+        blocks: number,
+        percentiles: number[],
+        logger: Logger = console
+    ): Promise<Record<number, bigint> | undefined> {
+        try {
+            const history: FeeHistory = await provider.send('eth_feeHistory', [
+                ethers.toQuantity(blocks),
+                'latest',
+                percentiles,
+            ]);
+            return this.rewardPercentiles(history, percentiles);
+        } catch (error) {
+            logger.warn('⚠️ Failed to fetch fee history:', error);
+            return undefined;
+        }
+    }
+
+    public static rewardPercentiles(
+        history: FeeHistory,
+        percentiles: number[]
+    ): Record<number, bigint> {
+        const rewards = (history.reward ?? []).filter(
+            (_reward, i) => (history.gasUsedRatio[i] ?? 0) > 0
+        );
+        if (rewards.length === 0) return {};
+
+        return Object.fromEntries(
+            percentiles.map((percentile, column) => [
+                percentile,
+                this.median(rewards.map((reward) => BigInt(reward[column]))),
+            ])
+        );
+    }
+
+    /**
+     * Computes replacement fees for a stuck transaction: at least the
+     * configured bump over the current fees (and never below the node's
+     * 10% replacement rule), at least the current market fees, and capped by
+     * MAX_FEE_GWEI. Returns null when the ceiling leaves no room to bump.
+     */
+    public static bump(
+        config: BlockReactionConfig,
+        current: FeeParams,
+        market: FeeParams
+    ): FeeParams | null {
+        const percent = Math.max(config.feeBumpPercent, 10);
+        const ceiling =
+            config.maxFeeGwei > 0
+                ? ethers.parseUnits(`${config.maxFeeGwei}`, 'gwei')
+                : undefined;
+
+        if (current.type === 0) {
+            const minimum = this.increase(
+                current.gasPrice || BigInt(0),
+                percent
+            );
+            let gasPrice = this.max(minimum, market.gasPrice);
+            if (ceiling !== undefined && gasPrice > ceiling) gasPrice = ceiling;
+            if (gasPrice < minimum) return null;
+
+            return { type: 0, gasPrice };
+        }
+
+        const minimumTip = this.increase(
+            current.maxPriorityFeePerGas || BigInt(0),
+            percent
+        );
+        const minimumMaxFee = this.increase(
+            current.maxFeePerGas || BigInt(0),
+            percent
+        );
+
+        const maxPriorityFeePerGas = this.max(
+            minimumTip,
+            market.maxPriorityFeePerGas
+        );
+        let maxFeePerGas = this.max(
+            this.max(minimumMaxFee, market.maxFeePerGas),
+            maxPriorityFeePerGas
+        );
+        if (ceiling !== undefined && maxFeePerGas > ceiling) {
+            maxFeePerGas = ceiling;
+        }
+        if (maxFeePerGas < minimumMaxFee || maxFeePerGas < minimumTip) {
+            return null;
+        }
+
+        return {
+            type: 2,
+            maxFeePerGas,
+            maxPriorityFeePerGas:
+                maxPriorityFeePerGas > maxFeePerGas
+                    ? maxFeePerGas
+                    : maxPriorityFeePerGas,
+            baseFeePerGas: market.baseFeePerGas,
+        };
+    }
+
+    /**
+     * The per-gas price a transaction offers on top of the base fee
+     * (gasPrice for legacy, the tip for EIP-1559).
+     */
+    public static offeredPrice(fees: FeeParams): bigint {
+        return (
+            (fees.type === 0 ? fees.gasPrice : fees.maxPriorityFeePerGas) ||
+            BigInt(0)
+        );
+    }
+
+    /**
+     * Human readable summary of fee fields for logging.
+     */
+    public static describe(fees: FeeParams): string {
+        if (fees.type === 0) {
+            return `Gas Price: ${ethers.formatUnits(
+                fees.gasPrice || BigInt(0),
+                'gwei'
+            )} gwei`;
+        }
+
+        return `Max Fee: ${ethers.formatUnits(
+            fees.maxFeePerGas || BigInt(0),
+            'gwei'
+        )} gwei, Priority Fee: ${ethers.formatUnits(
+            fees.maxPriorityFeePerGas || BigInt(0),
+            'gwei'
+        )} gwei, Base Fee: ${ethers.formatUnits(
+            fees.baseFeePerGas || BigInt(0),
+            'gwei'
+        )} gwei`;
+    }
+
+    // Raises a wei amount by a percentage, rounding up
+    private static increase(value: bigint, percent: number): bigint {
+        const scaled = value * BigInt(Math.round((100 + percent) * 100));
+        return (scaled + BigInt(9999)) / BigInt(10000);
+    }
+
+    private static median(values: bigint[]): bigint {
+        const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+        const middle = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1
+            ? sorted[middle]
+            : (sorted[middle - 1] + sorted[middle]) / BigInt(2);
+    }
+
+    private static max(a: bigint, b?: bigint): bigint {
+        return b !== undefined && b > a ? b : a;
+    }
+
+    // Multiplies a wei amount by a decimal factor with 1e-6 precision
+    private static multiply(value: bigint, factor: number): bigint {
+        return (value * BigInt(Math.round(factor * 1e6))) / BigInt(1e6);
+    }
+}
@@ -0,0 +1,72 @@
+import { SubscriptionSocket } from '../sources';
+import { Logger } from '../types';
+
+// Some providers push full transaction objects instead of hashes
+type PendingTransactionNotification = string | { hash?: string };
+
+/**
+ * Watches `newPendingTransactions` on a separate WebSocket endpoint and
+ * records when each of our transaction hashes is first seen in the mempool.
+ * Hashes are registered before broadcasting so an early notification isn't
+ * missed.
+ */
+export class MempoolObserver {
+    private socket: SubscriptionSocket<PendingTransactionNotification>;
+    private firstSeenAt = new Map<string, number | null>();
+
+    constructor(websocketUrl: string, logger: Logger = console) {
+        this.socket = new SubscriptionSocket<PendingTransactionNotification>(
+            websocketUrl,
+            ['newPendingTransactions'],
+            'pending transactions',
+            logger
+        );
+    }
+
+    public get reconnectCount(): number {
+        return this.socket.reconnectCount;
+    }
+
+    public get downtimeMs(): number {
+        return this.socket.downtimeMs;
+    }
+
+    public start(): void {
+        this.socket.start({
+            onResult: (notification) => {
+                const hash =
+                    typeof notification === 'string'
+                        ? notification
+                        : notification.hash;
+                if (!hash) return;
+
+                const key = hash.toLowerCase();
+                if (this.firstSeenAt.get(key) === null) {
+                    this.firstSeenAt.set(key, Date.now());
+                }
+            },
+        });
+    }
+
+    public watch(hash: string): void {
+        const key = hash.toLowerCase();
+        if (!this.firstSeenAt.has(key)) {
+            this.firstSeenAt.set(key, null);
+        }
+    }
+
+    /**
+     * When the hash was first seen, or null if it hasn't been (yet).
+     */
+    public firstSeen(hash: string): number | null {
+        return this.firstSeenAt.get(hash.toLowerCase()) ?? null;
+    }
+
+    public stop(): void {
+        this.socket.stop();
+    }
+
+    public isActive(): boolean {
+        return this.socket.isActive();
+    }
+}
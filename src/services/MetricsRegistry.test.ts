@@ -0,0 +1,20 @@
+import { MetricsRegistry } from './MetricsRegistry';
+
+describe('MetricsRegistry', () => {
+    it('escapes label values in the exposition format', () => {
+        const registry = new MetricsRegistry();
+        registry
+            .counter('test_total', 'A test counter')
+            .inc({ chain: 'a "quoted"\\path\nsecond line' });
+
+        const lines = registry.render().split('\n');
+
+        // One sample line, with the newline written as the two characters \n
+        expect(lines).toContain(
+            'test_total{chain="a \\"quoted\\"\\\\path\\nsecond line"} 1'
+        );
+        expect(lines.some((line) => line.startsWith('second line'))).toBe(
+            false
+        );
+    });
+});
@@ -0,0 +1,203 @@
+export type MetricLabels = Record<string, string | number>;
+
+type MetricKind = 'counter' | 'gauge' | 'histogram';
+
+interface HistogramSeries {
+    buckets: number[]; // Cumulative counts, one per bucket bound
+    sum: number;
+    count: number;
+}
+
+// Label values escape backslash, double quote and newline as \\, \" and \n
+function escapeLabelValue(value: string): string {
+    return value.replace(/["\\\n]/g, (c) => (c === '\n' ? '\\n' : `\\${c}`));
+}
+
+function labelKey(labels: MetricLabels = {}): string {
+    return Object.keys(labels)
+        .sort()
+        .map((key) => `${key}="${escapeLabelValue(String(labels[key]))}"`)
+        .join(',');
+}
+
+function withLabels(name: string, key: string, extra?: string): string {
+    const parts = [key, extra].filter(Boolean).join(',');
+    return parts ? `${name}{${parts}}` : name;
+}
+
+abstract class Metric {
+    constructor(
+        public readonly name: string,
+        public readonly help: string,
+        public readonly kind: MetricKind
+    ) {}
+
+    public abstract render(): string[];
+
+    protected header(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} ${this.kind}`,
+        ];
+    }
+}
+
+export class Counter extends Metric {
+    private values = new Map<string, number>();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'counter');
+    }
+
+    public inc(labels?: MetricLabels, value = 1): void {
+        const key = labelKey(labels);
+        this.values.set(key, (this.values.get(key) || 0) + value);
+    }
+
+    /**
+     * Mirrors a monotonically increasing count that is tracked elsewhere.
+     */
+    public setTotal(value: number, labels?: MetricLabels): void {
+        this.values.set(labelKey(labels), value);
+    }
+
+    public get(labels?: MetricLabels): number {
+        return this.values.get(labelKey(labels)) || 0;
+    }
+
+    public render(): string[] {
+        const lines = this.header();
+        if (this.values.size === 0) lines.push(`${this.name} 0`);
+        for (const [key, value] of this.values) {
+            lines.push(`${withLabels(this.name, key)} ${value}`);
+        }
+        return lines;
+    }
+}
+
+export class Gauge extends Metric {
+    private values = new Map<string, number>();
+
+    constructor(name: string, help: string) {
+        super(name, help, 'gauge');
+    }
+
+    public set(value: number, labels?: MetricLabels): void {
+        this.values.set(labelKey(labels), value);
+    }
+
+    public get(labels?: MetricLabels): number {
+        return this.values.get(labelKey(labels)) || 0;
+    }
+
+    public render(): string[] {
+        const lines = this.header();
+        if (this.values.size === 0) lines.push(`${this.name} 0`);
+        for (const [key, value] of this.values) {
+            lines.push(`${withLabels(this.name, key)} ${value}`);
+        }
+        return lines;
+    }
+}
+
+export class Histogram extends Metric {
+    private series = new Map<string, HistogramSeries>();
+
+    constructor(name: string, help: string, private readonly bounds: number[]) {
+        super(name, help, 'histogram');
+    }
+
+    public observe(value: number, labels?: MetricLabels): void {
+        const key = labelKey(labels);
+        let series = this.series.get(key);
+        if (!series) {
+            series = {
+                buckets: this.bounds.map(() => 0),
+                sum: 0,
+                count: 0,
+            };
+            this.series.set(key, series);
+        }
+
+        this.bounds.forEach((bound, i) => {
+            if (value <= bound) series!.buckets[i]++;
+        });
+        series.sum += value;
+        series.count++;
+    }
+
+    public render(): string[] {
+        const lines = this.header();
+        for (const [key, series] of this.series) {
+            this.bounds.forEach((bound, i) => {
+                lines.push(
+                    `${withLabels(
+                        `${this.name}_bucket`,
+                        key,
+                        `le="${bound}"`
+                    )} ${series.buckets[i]}`
+                );
+            });
+            lines.push(
+                `${withLabels(`${this.name}_bucket`, key, 'le="+Inf"')} ${
+                    series.count
+                }`
+            );
+            lines.push(`${withLabels(`${this.name}_sum`, key)} ${series.sum}`);
+            lines.push(
+                `${withLabels(`${this.name}_count`, key)} ${series.count}`
+            );
+        }
+        return lines;
+    }
+}
+
+/**
+ * Minimal in-process metrics registry rendering the Prometheus text
+ * exposition format. Metrics are registered once by name; registering an
+ * existing name returns the same instance so several services can share a
+ * registry.
+ */
+export class MetricsRegistry {
+    private metrics = new Map<string, Metric>();
+    private collectors: (() => void)[] = [];
+
+    public counter(name: string, help: string): Counter {
+        return this.register(name, () => new Counter(name, help));
+    }
+
+    public gauge(name: string, help: string): Gauge {
+        return this.register(name, () => new Gauge(name, help));
+    }
+
+    public histogram(name: string, help: string, bounds: number[]): Histogram {
+        return this.register(name, () => new Histogram(name, help, bounds));
+    }
+
+    /**
+     * Registers a callback that refreshes point-in-time values right before
+     * the metrics are rendered.
+     */
+    public addCollector(collector: () => void): void {
+        this.collectors.push(collector);
+    }
+
+    public render(): string {
+        this.collectors.forEach((collect) => collect());
+
+        const lines: string[] = [];
+        for (const metric of this.metrics.values()) {
+            lines.push(...metric.render());
+        }
+        return lines.join('\n') + '\n';
+    }
+
+    private register<T extends Metric>(name: string, create: () => T): T {
+        const existing = this.metrics.get(name);
+        if (existing) return existing as T;
+
+        const metric = create();
+        this.metrics.set(name, metric);
+        return metric;
+    }
+}
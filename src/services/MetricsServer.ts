@@ -0,0 +1,46 @@
+import http from 'http';
+import { Logger } from '../types';
+import { MetricsRegistry } from './MetricsRegistry';
+
+export class MetricsServer {
+    private server: http.Server | null = null;
+
+    constructor(
+        private readonly registry: MetricsRegistry,
+        private readonly port: number,
+        private readonly host: string,
+        private readonly logger: Logger = console
+    ) {}
+
+    public start(): Promise<void> {
+        this.server = http.createServer((req, res) => {
+            if (req.method === 'GET' && req.url?.split('?')[0] === '/metrics') {
+                res.writeHead(200, {
+                    'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+                });
+                res.end(this.registry.render());
+                return;
+            }
+
+            res.writeHead(404, { 'Content-Type': 'text/plain' });
+            res.end('Not found\n');
+        });
+
+        return new Promise((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(this.port, this.host, () => {
+                this.logger.log(
+                    `📈 Metrics available at http://${this.host}:${this.port}/metrics`
+                );
+                resolve();
+            });
+        });
+    }
+
+    public stop(): void {
+        if (this.server) {
+            this.server.close();
+            this.server = null;
+        }
+    }
+}
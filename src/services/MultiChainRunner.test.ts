@@ -0,0 +1,76 @@
+import { BlockchainService } from './BlockchainService';
+import { MultiChainRunner } from './MultiChainRunner';
+import { MockNode } from '../testing/MockNode';
+import { mockConfig, waitFor } from '../testing/helpers';
+
+jest.setTimeout(30000);
+
+describe('MultiChainRunner', () => {
+    let nodes: MockNode[];
+    let runner: MultiChainRunner | null;
+
+    beforeEach(async () => {
+        jest.spyOn(console, 'log').mockImplementation(() => undefined);
+        nodes = [new MockNode(), new MockNode()];
+        await Promise.all(nodes.map((node) => node.start()));
+        runner = null;
+    });
+
+    afterEach(async () => {
+        runner?.stop();
+        await Promise.all(nodes.map((node) => node.stop()));
+        jest.restoreAllMocks();
+    });
+
+    it('settles after stop() once every chain has nothing pending', async () => {
+        const transactionCount = 5;
+        runner = new MultiChainRunner(
+            nodes.map((node, i) =>
+                mockConfig(node, {
+                    chainName: `chain-${i}`,
+                    transactionCount,
+                })
+            )
+        );
+        const running = runner.run();
+        nodes.forEach((node) => node.startMining(250));
+
+        // Stop as soon as every chain has sent, long before all are sent
+        await waitFor(
+            () => nodes.every((node) => node.transactions.length > 0),
+            10000,
+            'first sends'
+        );
+        runner.stop();
+        await running;
+
+        expect(runner.isCompleted()).toBe(false);
+        for (const node of nodes) {
+            expect(node.transactions.length).toBeLessThan(transactionCount);
+            expect(node.pendingCount).toBe(0);
+        }
+    });
+
+    it('reports a chain that fails to start as failed, not completed', async () => {
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+        jest.spyOn(BlockchainService.prototype, 'start').mockRejectedValueOnce(
+            new Error('connection refused')
+        );
+        runner = new MultiChainRunner(
+            nodes.map((node, i) =>
+                mockConfig(node, { chainName: `chain-${i}` })
+            )
+        );
+        const running = runner.run();
+        nodes.forEach((node) => node.startMining(250));
+        await running;
+
+        expect(runner.isCompleted()).toBe(false);
+        expect(runner.failedChains()).toEqual(['chain-0']);
+        expect(console.log).toHaveBeenCalledWith(
+            expect.stringMatching(/^chain-0 +failed to start$/)
+        );
+        expect(nodes[0].transactions).toHaveLength(0);
+        expect(nodes[1].transactions).toHaveLength(1);
+    });
+});
@@ -0,0 +1,187 @@
+import { BlockReactionConfig } from '../types';
+import { mean, median, percentile } from '../utils/stats';
+import { BlockchainService } from './BlockchainService';
+import { MetricsRegistry } from './MetricsRegistry';
+import { MetricsServer } from './MetricsServer';
+
+interface ChainRun {
+    name: string;
+    service: BlockchainService;
+    completed: boolean;
+    stopped: boolean; // Stopped early with nothing left pending
+    failed: boolean; // Failed to start
+}
+
+/**
+ * Runs one BlockchainService per configured chain in the same process and
+ * prints a side-by-side comparison once every chain has finished.
+ */
+export class MultiChainRunner {
+    private runs: ChainRun[];
+    private registry = new MetricsRegistry();
+    private metricsServer: MetricsServer | null = null;
+    private resolveCompletion: (() => void) | null = null;
+    private stopping = false;
+
+    constructor(
+        chains: BlockReactionConfig[],
+        private readonly metricsPort = 0,
+        private readonly metricsHost = '0.0.0.0'
+    ) {
+        this.runs = chains.map((config) => {
+            const name = config.chainName || config.httpRpcUrl;
+            const run: ChainRun = {
+                name,
+                completed: false,
+                stopped: false,
+                failed: false,
+                service: new BlockchainService(
+                    // One shared metrics endpoint, labelled per chain
+                    { ...config, metricsPort: 0 },
+                    {
+                        metricsRegistry: this.registry,
+                        metricsLabels: { chain: name },
+                        logger: console,
+                    }
+                ),
+            };
+            run.service.on('completed', () => this.markCompleted(run));
+            run.service.on('stopped', () => this.markStopped(run));
+            return run;
+        });
+    }
+
+    /**
+     * Starts every chain and resolves once all of them have confirmed their
+     * transactions, or after `stop()` once none has anything pending. A
+     * chain that fails to start is reported, skipped and marked failed.
+     */
+    public async run(): Promise<void> {
+        if (this.metricsPort > 0) {
+            this.metricsServer = new MetricsServer(
+                this.registry,
+                this.metricsPort,
+                this.metricsHost
+            );
+            await this.metricsServer.start();
+        }
+
+        const completion = new Promise<void>((resolve) => {
+            this.resolveCompletion = resolve;
+        });
+
+        await Promise.all(
+            this.runs.map(async (run) => {
+                try {
+                    console.log(`\n⛓️  Starting chain: ${run.name}`);
+                    await run.service.start();
+                } catch (error) {
+                    console.error(
+                        `❌ Failed to start chain ${run.name}:`,
+                        error
+                    );
+                    this.markFailed(run);
+                }
+            })
+        );
+
+        await completion;
+        this.printComparison();
+        this.metricsServer?.stop();
+    }
+
+    public stop(): void {
+        this.stopping = true;
+        this.runs.forEach((run) => run.service.stop());
+    }
+
+    public isCompleted(): boolean {
+        return this.runs.every((run) => run.completed);
+    }
+
+    public failedChains(): string[] {
+        return this.runs.filter((run) => run.failed).map((run) => run.name);
+    }
+
+    public saveResults(): void {
+        this.runs.forEach((run) => run.service.saveResults());
+    }
+
+    private markCompleted(run: ChainRun): void {
+        run.completed = true;
+        console.log(`\n🏁 Chain ${run.name} completed`);
+        this.checkSettled();
+    }
+
+    private markFailed(run: ChainRun): void {
+        run.failed = true;
+        run.service.close();
+        this.checkSettled();
+    }
+
+    private markStopped(run: ChainRun): void {
+        // A completed chain has already saved its results; a failed one has none
+        if (!this.stopping || run.completed || run.failed) return;
+
+        run.stopped = true;
+        console.log(`\n🛑 Chain ${run.name} stopped`);
+        run.service.saveResults();
+        this.checkSettled();
+    }
+
+    private checkSettled(): void {
+        if (
+            this.runs.every(
+                (run) => run.completed || run.stopped || run.failed
+            ) &&
+            this.resolveCompletion
+        ) {
+            this.resolveCompletion();
+        }
+    }
+
+    public printComparison(): void {
+        console.log('\n📊 MULTI-CHAIN COMPARISON');
+        console.log('=========================');
+
+        const header = [
+            'Chain'.padEnd(16),
+            'Confirmed'.padStart(9),
+            'Blocks avg'.padStart(11),
+            'median'.padStart(7),
+            'p95'.padStart(7),
+            'Time avg'.padStart(10),
+            'median'.padStart(9),
+            'p95'.padStart(9),
+        ].join(' ');
+        console.log(header);
+        console.log('-'.repeat(header.length));
+
+        for (const run of this.runs) {
+            if (run.failed) {
+                console.log(
+                    `${run.name.padEnd(16)} ${'failed to start'.padStart(9)}`
+                );
+                continue;
+            }
+
+            const metrics = run.service.getConfirmationMetrics();
+            const status = run.service.getStatus();
+            const blocks = metrics.map((m) => m.blocksToConfirm);
+            const times = metrics.map((m) => m.confirmationTimeMs);
+
+            console.log(
+                [
+                    run.name.padEnd(16),
+                    `${status.confirmed}/${status.total}`.padStart(9),
+                    mean(blocks).toFixed(2).padStart(11),
+                    median(blocks).toFixed(1).padStart(7),
+                    percentile(blocks, 95).toFixed(1).padStart(7),
+                    `${mean(times).toFixed(0)}ms`.padStart(10),
+                    `${median(times).toFixed(0)}ms`.padStart(9),
+                    `${percentile(times, 95).toFixed(0)}ms`.padStart(9),
+                ].join(' ')
+            );
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import { ethers } from 'ethers';
+
+export type NonceErrorKind =
+    | 'nonce-too-low'
+    | 'nonce-too-high'
+    | 'replacement-underpriced'
+    | 'already-known'
+    | 'other';
+
+/**
+ * Hands out nonces for a single sender. Nonces are reserved before a send
+ * and either marked as broadcast or released afterwards, so failed sends
+ * leave a gap that the next reservation fills. Provider errors that reveal
+ * the local view is wrong trigger a resync from the `pending` nonce.
+ */
+export class NonceManager {
+    private nextNonce: number | null = null;
+    private lastSynced = 0;
+    private reserved = new Set<number>(); // Handed out, send in progress
+    private broadcast = new Set<number>(); // Accepted by the node, not yet mined
+    private gaps = new Set<number>(); // Free nonces below nextNonce
+    private readonly SYNC_TTL = 60000; // Resync from the node every minute
+
+    constructor(private readonly signer: ethers.Wallet) {}
+
+    /**
+     * Reserves the lowest free nonce, filling gaps before extending the
+     * sequence.
+     */
+    public async reserve(): Promise<{ nonce: number; cached: boolean }> {
+        let cached = true;
+        if (
+            this.nextNonce === null ||
+            (Date.now() - this.lastSynced >= this.SYNC_TTL &&
+                this.reserved.size === 0)
+        ) {
+            await this.sync();
+            cached = false;
+        }
+
+        let nonce: number;
+        if (this.gaps.size > 0) {
+            nonce = Math.min(...this.gaps);
+            this.gaps.delete(nonce);
+        } else {
+            nonce = this.nextNonce!;
+            this.nextNonce!++;
+        }
+
+        this.reserved.add(nonce);
+        return { nonce, cached };
+    }
+
+    public markSent(nonce: number): void {
+        this.reserved.delete(nonce);
+        this.broadcast.add(nonce);
+    }
+
+    /**
+     * Returns a nonce whose send failed without reaching the mempool.
+     */
+    public release(nonce: number): void {
+        this.reserved.delete(nonce);
+        if (this.nextNonce !== null && nonce === this.nextNonce - 1) {
+            this.nextNonce--;
+        } else {
+            this.gaps.add(nonce);
+        }
+    }
+
+    /**
+     * Updates local state after a failed send and reports what went wrong.
+     */
+    public async handleSendError(
+        nonce: number,
+        error: unknown
+    ): Promise<NonceErrorKind> {
+        const kind = NonceManager.classifyError(error);
+        this.reserved.delete(nonce);
+
+        switch (kind) {
+            case 'nonce-too-low':
+            case 'replacement-underpriced':
+            case 'already-known':
+                // Something else already holds this nonce
+                this.broadcast.add(nonce);
+                await this.sync();
+                break;
+            case 'nonce-too-high':
+                this.gaps.add(nonce);
+                await this.sync();
+                break;
+            default:
+                this.release(nonce);
+        }
+
+        return kind;
+    }
+
+    /**
+     * Re-reads the `latest` and `pending` nonces from the node. Nonces we
+     * have broadcast that are now mined are forgotten, external sends from
+     * the same wallet advance the sequence, and unused nonces below it are
+     * recorded as gaps.
+     */
+    public async sync(): Promise<void> {
+        const [latest, pending] = await Promise.all([
+            this.signer.getNonce('latest'),
+            this.signer.getNonce('pending'),
+        ]);
+
+        for (const nonce of this.broadcast) {
+            if (nonce < latest) this.broadcast.delete(nonce);
+        }
+        // Nonces between latest and pending belong to txs the node already holds
+        for (let nonce = latest; nonce < pending; nonce++) {
+            if (!this.reserved.has(nonce)) this.broadcast.add(nonce);
+        }
+
+        const next = Math.max(pending, this.nextNonce ?? pending);
+        this.gaps.clear();
+        for (let nonce = latest; nonce < next; nonce++) {
+            if (!this.broadcast.has(nonce) && !this.reserved.has(nonce)) {
+                this.gaps.add(nonce);
+            }
+        }
+
+        this.nextNonce = next;
+        this.lastSynced = Date.now();
+    }
+
+    public getGaps(): number[] {
+        return [...this.gaps].sort((a, b) => a - b);
+    }
+
+    public static classifyError(error: unknown): NonceErrorKind {
+        const code = (error as { code?: string })?.code;
+        const message = String(
+            (error as { shortMessage?: string; message?: string })
+                ?.shortMessage ||
+                (error as { message?: string })?.message ||
+                error
+        ).toLowerCase();
+
+        if (code === 'NONCE_EXPIRED' || message.includes('nonce too low')) {
+            return 'nonce-too-low';
+        }
+        if (message.includes('nonce too high')) {
+            return 'nonce-too-high';
+        }
+        if (
+            code === 'REPLACEMENT_UNDERPRICED' ||
+            message.includes('replacement transaction underpriced') ||
+            message.includes('replacement underpriced')
+        ) {
+            return 'replacement-underpriced';
+        }
+        if (
+            message.includes('already known') ||
+            message.includes('known transaction')
+        ) {
+            return 'already-known';
+        }
+        return 'other';
+    }
+}
@@ -0,0 +1,84 @@
+import { ethers } from 'ethers';
+import { RelayMode } from '../types';
+
+// Blocks a private transaction stays eligible for, as Flashbots defaults to
+const PRIVATE_TX_MAX_BLOCKS = 25;
+
+/**
+ * Submits signed transactions to a Flashbots-style private relay instead of
+ * the public mempool, either as `eth_sendPrivateTransaction` or as a
+ * single-transaction `eth_sendBundle` for one target block. Every request
+ * carries an `X-Flashbots-Signature` header from a separate auth key, which
+ * identifies the sender to the relay but never holds funds.
+ */
+export class PrivateRelay {
+    private readonly authSigner: ethers.Wallet;
+    private nextId = 1;
+
+    constructor(
+        public readonly url: string,
+        authKey: string,
+        public readonly mode: RelayMode
+    ) {
+        this.authSigner = new ethers.Wallet(authKey);
+    }
+
+    /**
+     * Hands the transaction to the relay. A bundle only lands in
+     * `targetBlock`; a private transaction stays eligible from there for
+     * the following blocks.
+     */
+    public async send(signedTx: string, targetBlock: number): Promise<string> {
+        if (this.mode === 'bundle') {
+            await this.call('eth_sendBundle', [
+                {
+                    txs: [signedTx],
+                    blockNumber: ethers.toQuantity(targetBlock),
+                },
+            ]);
+        } else {
+            await this.call('eth_sendPrivateTransaction', [
+                {
+                    tx: signedTx,
+                    maxBlockNumber: ethers.toQuantity(
+                        targetBlock + PRIVATE_TX_MAX_BLOCKS - 1
+                    ),
+                },
+            ]);
+        }
+
+        return ethers.keccak256(signedTx);
+    }
+
+    private async call(method: string, params: unknown[]): Promise<unknown> {
+        const body = JSON.stringify({
+            jsonrpc: '2.0',
+            id: this.nextId++,
+            method,
+            params,
+        });
+
+        const request = new ethers.FetchRequest(this.url);
+        request.body = body;
+        request.setHeader('Content-Type', 'application/json');
+        request.setHeader(
+            'X-Flashbots-Signature',
+            `${this.authSigner.address}:${await this.authSigner.signMessage(
+                ethers.id(body)
+            )}`
+        );
+
+        const response = await request.send();
+        if (!response.ok()) {
+            throw new Error(
+                `Relay ${method} failed: HTTP ${response.statusCode} ${response.bodyText}`
+            );
+        }
+
+        const json = response.bodyJson;
+        if (json.error) {
+            throw new Error(json.error.message ?? JSON.stringify(json.error));
+        }
+        return json.result;
+    }
+}
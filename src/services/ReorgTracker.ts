@@ -0,0 +1,77 @@
+import { ethers } from 'ethers';
+import { BlockData, ReorgEvent } from '../types';
+
+/**
+ * Remembers the hashes of recent blocks and detects chain reorganizations
+ * from the hash and parent hash of each incoming block.
+ */
+export class ReorgTracker {
+    private hashes = new Map<number, string>();
+
+    constructor(
+        private readonly provider: ethers.JsonRpcProvider,
+        private readonly windowSize = 64 // Blocks of history to keep
+    ) {}
+
+    /**
+     * Records a new block and returns a reorg event if the block does not
+     * extend the chain we have seen so far.
+     */
+    public async track(blockData: BlockData): Promise<ReorgEvent | null> {
+        const number = parseInt(blockData.number, 16);
+        const hash = blockData.hash;
+        const replaced: ReorgEvent['replacedBlocks'] = [];
+
+        // Blocks above the new head were orphaned by a shorter replacement chain
+        for (const [known, oldHash] of this.hashes) {
+            if (known > number) {
+                replaced.push({ number: known, oldHash });
+                this.hashes.delete(known);
+            }
+        }
+
+        const knownHash = this.hashes.get(number);
+        if (knownHash && knownHash !== hash) {
+            replaced.push({ number, oldHash: knownHash, newHash: hash });
+        }
+        this.hashes.set(number, hash);
+
+        // Walk back along the new chain until it meets a hash we already know
+        let height = number - 1;
+        let expectedHash = blockData.parentHash;
+        while (expectedHash) {
+            const oldHash = this.hashes.get(height);
+            if (!oldHash || oldHash === expectedHash) break;
+
+            replaced.push({ number: height, oldHash, newHash: expectedHash });
+            this.hashes.set(height, expectedHash);
+
+            const block = await this.provider.getBlock(expectedHash);
+            expectedHash = block?.parentHash;
+            height--;
+        }
+
+        this.prune(number);
+
+        if (replaced.length === 0) return null;
+
+        replaced.sort((a, b) => a.number - b.number);
+        return {
+            detectedAt: Date.now(),
+            newHeadNumber: number,
+            newHeadHash: hash,
+            commonAncestor: replaced[0].number - 1,
+            depth: replaced.length,
+            replacedBlocks: replaced,
+            affectedTransactions: [],
+        };
+    }
+
+    private prune(head: number): void {
+        for (const known of this.hashes.keys()) {
+            if (known <= head - this.windowSize) {
+                this.hashes.delete(known);
+            }
+        }
+    }
+}
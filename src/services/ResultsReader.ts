@@ -0,0 +1,96 @@
+import fs from 'fs';
+import path from 'path';
+import { ConfirmationMetrics, ReorgEvent, RunRecord, SavedRun } from '../types';
+
+// Metrics fields ResultsWriter stores as decimal strings
+const BIGINT_FIELDS: (keyof ConfirmationMetrics)[] = [
+    'gasUsed',
+    'effectiveGasPrice',
+    'maxFeePerGas',
+    'maxPriorityFeePerGas',
+    'baseFeePerGas',
+    'effectivePriorityFee',
+    'feeBumpCost',
+];
+
+export class ResultsReader {
+    /**
+     * Reads a JSONL results file written by ResultsWriter. A CSV path is
+     * resolved to the JSONL file of the same run, since only JSONL carries
+     * the run header and reorg records.
+     */
+    public static read(file: string): SavedRun {
+        const jsonlFile = this.resolveJsonl(file);
+
+        let text: string;
+        try {
+            text = fs.readFileSync(jsonlFile, 'utf8');
+        } catch (error) {
+            throw new Error(
+                `Cannot read results file ${jsonlFile}: ${
+                    (error as Error).message
+                }`
+            );
+        }
+
+        let run: RunRecord | null = null;
+        const metrics: ConfirmationMetrics[] = [];
+        const reorgs: ReorgEvent[] = [];
+
+        text.split('\n').forEach((line, index) => {
+            if (!line.trim()) return;
+
+            let record: Record<string, unknown>;
+            try {
+                record = JSON.parse(line);
+            } catch (error) {
+                throw new Error(
+                    `${jsonlFile}:${index + 1}: invalid JSON (${
+                        (error as Error).message
+                    })`
+                );
+            }
+
+            const { type, ...rest } = record;
+            if (type === 'run') {
+                run = rest as unknown as RunRecord;
+            } else if (type === 'metrics') {
+                metrics.push(this.reviveMetrics(rest));
+            } else if (type === 'reorg') {
+                const { runId: _runId, ...reorg } = rest;
+                reorgs.push(reorg as unknown as ReorgEvent);
+            }
+        });
+
+        if (!run) {
+            throw new Error(`${jsonlFile} has no run record`);
+        }
+
+        return { run, metrics, reorgs };
+    }
+
+    private static resolveJsonl(file: string): string {
+        if (path.extname(file).toLowerCase() !== '.csv') return file;
+
+        const jsonlFile = file.replace(/\.csv$/i, '.jsonl');
+        if (!fs.existsSync(jsonlFile)) {
+            throw new Error(
+                `${file} is a CSV file; reports need the .jsonl file of the same run (set RESULTS_FORMAT to include jsonl)`
+            );
+        }
+        return jsonlFile;
+    }
+
+    private static reviveMetrics(
+        record: Record<string, unknown>
+    ): ConfirmationMetrics {
+        const { runId: _runId, ...metrics } = record;
+        for (const field of BIGINT_FIELDS) {
+            const value = metrics[field];
+            if (typeof value === 'string' || typeof value === 'number') {
+                metrics[field] = BigInt(value);
+            }
+        }
+        return metrics as unknown as ConfirmationMetrics;
+    }
+}
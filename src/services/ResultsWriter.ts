@@ -0,0 +1,209 @@
+import fs from 'fs';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import {
+    BlockReactionConfig,
+    ConfigSnapshot,
+    ConfirmationMetrics,
+    ConnectionStats,
+    ReorgEvent,
+    RunRecord,
+} from '../types';
+
+const METRIC_COLUMNS: (keyof ConfirmationMetrics)[] = [
+    'transactionHash',
+    'sentBlockNumber',
+    'confirmedBlockNumber',
+    'blocksToConfirm',
+    'confirmationTimeMs',
+    'gasUsed',
+    'effectiveGasPrice',
+    'sentBlockTimestamp',
+    'confirmedBlockTimestamp',
+    'sentTimestamp',
+    'txType',
+    'maxFeePerGas',
+    'maxPriorityFeePerGas',
+    'baseFeePerGas',
+    'effectivePriorityFee',
+    'confirmedBlockHash',
+    'reorged',
+    'reorgCount',
+    'originalHash',
+    'attemptMined',
+    'replacementHashes',
+    'feeBumpCost',
+    'firstReceiptEndpoint',
+    'txIndex',
+    'confirmedBlockTxCount',
+    'confirmedBlockGasUsedRatio',
+    'sentBlockGasUsedRatio',
+    'sentBlockFull',
+    'blockNotificationLagMs',
+    'preparationMs',
+    'submissionMs',
+    'inclusionMs',
+    'receiptLagMs',
+    'mempoolSeen',
+    'timeToMempoolMs',
+    'presigned',
+    'signingMs',
+    'schedule',
+    'burstIndex',
+    'payload',
+    'feeTier',
+    'sender',
+    'route',
+    'relaySubmissions',
+    'gasLimit',
+    'broadcastResults',
+];
+
+export class ResultsWriter {
+    public readonly runId: string;
+    private readonly startedAt = new Date();
+
+    constructor(private readonly config: BlockReactionConfig) {
+        this.runId = `${this.startedAt
+            .toISOString()
+            .replace(/[:.]/g, '-')}-${randomBytes(3).toString('hex')}`;
+    }
+
+    /**
+     * Writes the run header and every metrics row to the configured result
+     * files. Writes are synchronous so they complete before the process exits.
+     */
+    public write(
+        chainId: number,
+        senders: string[],
+        transactionsSent: number,
+        metrics: ConfirmationMetrics[],
+        reorgs: ReorgEvent[] = [],
+        connection?: ConnectionStats
+    ): string[] {
+        const run = this.record(chainId, senders, transactionsSent, connection);
+
+        fs.mkdirSync(this.config.resultsDir, { recursive: true });
+
+        const written: string[] = [];
+        for (const format of this.config.resultsFormats) {
+            const file = path.join(
+                this.config.resultsDir,
+                `${this.runId}.${format}`
+            );
+            const contents =
+                format === 'jsonl'
+                    ? ResultsWriter.toJsonl(run, metrics, reorgs)
+                    : ResultsWriter.toCsv(run, metrics);
+            fs.writeFileSync(file, contents);
+            written.push(file);
+        }
+
+        return written;
+    }
+
+    /**
+     * The run header as of now, as written at the top of each results file.
+     */
+    public record(
+        chainId: number,
+        senders: string[],
+        transactionsSent: number,
+        connection?: ConnectionStats
+    ): RunRecord {
+        return {
+            runId: this.runId,
+            chainId,
+            startedAt: this.startedAt.toISOString(),
+            finishedAt: new Date().toISOString(),
+            transactionsSent,
+            config: ResultsWriter.snapshotConfig(this.config, senders),
+            ...(connection && { connection }),
+        };
+    }
+
+    public static snapshotConfig(
+        config: BlockReactionConfig,
+        senders: string[]
+    ): ConfigSnapshot {
+        const {
+            privateKey: _privateKey,
+            privateKeys: _privateKeys,
+            relayAuthKey: _relayAuthKey,
+            ...rest
+        } = config;
+        return {
+            ...rest,
+            walletAddress: senders[0],
+            ...(senders.length > 1 && { senderAddresses: senders }),
+        };
+    }
+
+    /**
+     * JSON.stringify that writes bigints as decimal strings.
+     */
+    public static stringify(value: unknown, space?: number): string {
+        return JSON.stringify(
+            value,
+            (_key, v) => (typeof v === 'bigint' ? v.toString() : v),
+            space
+        );
+    }
+
+    private static toJsonl(
+        run: RunRecord,
+        metrics: ConfirmationMetrics[],
+        reorgs: ReorgEvent[]
+    ): string {
+        const lines = [
+            this.stringify({ type: 'run', ...run }),
+            ...metrics.map((m) =>
+                this.stringify({ type: 'metrics', runId: run.runId, ...m })
+            ),
+            ...reorgs.map((r) =>
+                this.stringify({ type: 'reorg', runId: run.runId, ...r })
+            ),
+        ];
+        return lines.join('\n') + '\n';
+    }
+
+    private static toCsv(
+        run: RunRecord,
+        metrics: ConfirmationMetrics[]
+    ): string {
+        // Each row carries the run identity and a flattened config snapshot
+        const configColumns = Object.keys(
+            run.config
+        ) as (keyof ConfigSnapshot)[];
+        const header = [
+            'runId',
+            'chainId',
+            ...METRIC_COLUMNS,
+            ...configColumns.map((key) => `config.${key}`),
+        ];
+
+        const rows = metrics.map((m) =>
+            [
+                run.runId,
+                run.chainId,
+                ...METRIC_COLUMNS.map((key) => m[key]),
+                ...configColumns.map((key) => run.config[key]),
+            ]
+                .map((value) => this.csvCell(value))
+                .join(',')
+        );
+
+        return [header.join(','), ...rows].join('\n') + '\n';
+    }
+
+    private static csvCell(value: unknown): string {
+        if (value === undefined || value === null) return '';
+        const text =
+            Array.isArray(value) && value.every((v) => typeof v !== 'object')
+                ? value.join(';')
+                : typeof value === 'object'
+                ? this.stringify(value)
+                : String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+}
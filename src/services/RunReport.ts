@@ -0,0 +1,776 @@
+import { ethers } from 'ethers';
+import {
+    ConfigChange,
+    BurstPositionSummary,
+    ConfigSnapshot,
+    ConfirmationMetrics,
+    DistributionSummary,
+    FeeCurveRow,
+    HistogramBin,
+    Logger,
+    MetricChange,
+    RouteSummary,
+    RunComparison,
+    RunSummary,
+    SavedRun,
+    SendTimingBucket,
+    SenderSummary,
+    SubmissionRoute,
+} from '../types';
+import { histogram, mean, summarize } from '../utils/stats';
+import { SendScheduler } from './SendScheduler';
+import { SenderPool } from './SenderPool';
+
+// Delay between the sent block's timestamp and the send, in ms
+const SEND_TIMING_BUCKETS: [string, number, number | null][] = [
+    ['<1s', 0, 1000],
+    ['1-2s', 1000, 2000],
+    ['2-4s', 2000, 4000],
+    ['4-8s', 4000, 8000],
+    ['>=8s', 8000, null],
+];
+
+const HISTOGRAM_WIDTH = 30;
+
+const LATENCY_STAGES: [keyof ConfirmationMetrics, string][] = [
+    ['blockNotificationLagMs', 'Block -> notification'],
+    ['preparationMs', 'Notification -> sent'],
+    ['submissionMs', 'Sent -> RPC ack'],
+    ['inclusionMs', 'RPC ack -> inclusion'],
+    ['receiptLagMs', 'Inclusion -> receipt seen'],
+];
+
+export class RunReport {
+    public static summarize(saved: SavedRun): RunSummary {
+        const { run, metrics, reorgs } = saved;
+        const bumped = metrics.filter((m) => m.replacementHashes.length > 0);
+        const totalFeesPaid = metrics.reduce(
+            (sum, m) => sum + m.gasUsed * m.effectiveGasPrice,
+            BigInt(0)
+        );
+
+        return {
+            runId: run.runId,
+            chainId: run.chainId,
+            chainName: run.config.chainName,
+            startedAt: run.startedAt,
+            finishedAt: run.finishedAt,
+            durationMs:
+                new Date(run.finishedAt).getTime() -
+                new Date(run.startedAt).getTime(),
+            transactionsSent: run.transactionsSent,
+            transactionsConfirmed: metrics.length,
+            blocksToConfirm: summarize(metrics.map((m) => m.blocksToConfirm)),
+            confirmationTimeMs: summarize(
+                metrics.map((m) => m.confirmationTimeMs)
+            ),
+            blocksHistogram: histogram(metrics.map((m) => m.blocksToConfirm)),
+            sendTiming: this.bySendTiming(metrics),
+            ...(run.config.sendSchedule && {
+                schedule: SendScheduler.describe(
+                    run.config.sendSchedule,
+                    run.config.sendConditions
+                ),
+            }),
+            burstPositions: this.byBurstPosition(metrics),
+            senders: this.bySender(metrics),
+            routes: this.byRoute(metrics),
+            feeCurve: this.feeCurve(metrics),
+            ...(metrics[0]?.payload && { payload: metrics[0].payload }),
+            blocksToConfirmAfterFullBlock: summarize(
+                metrics
+                    .filter((m) => m.sentBlockFull === true)
+                    .map((m) => m.blocksToConfirm)
+            ),
+            blocksToConfirmAfterNonFullBlock: summarize(
+                metrics
+                    .filter((m) => m.sentBlockFull === false)
+                    .map((m) => m.blocksToConfirm)
+            ),
+            avgConfirmedBlockGasUsedRatio: this.averageRatio(
+                metrics.map((m) => m.confirmedBlockGasUsedRatio)
+            ),
+            mempoolObserved: metrics.filter((m) => m.mempoolSeen !== undefined)
+                .length,
+            mempoolSeen: metrics.filter((m) => m.mempoolSeen === true).length,
+            timeToMempoolMs: summarize(
+                metrics
+                    .map((m) => m.timeToMempoolMs)
+                    .filter((v): v is number => v !== undefined)
+            ),
+            latencyBreakdown: LATENCY_STAGES.map(([stage, label]) => ({
+                stage,
+                label,
+                // Results written before the breakdown existed lack these fields
+                ms: summarize(
+                    metrics
+                        .map((m) => m[stage])
+                        .filter((v): v is number => typeof v === 'number')
+                ),
+            })),
+            presignedTransactions: metrics.filter((m) => m.presigned).length,
+            // Before pre-signing, signingMs meant notification -> signed
+            signingMs: summarize(
+                metrics
+                    .filter((m) => typeof m.presigned === 'boolean')
+                    .map((m) => m.signingMs)
+            ),
+            totalGasUsed: metrics.reduce(
+                (sum, m) => sum + m.gasUsed,
+                BigInt(0)
+            ),
+            totalFeesPaid,
+            avgEffectiveGasPrice:
+                metrics.length > 0
+                    ? metrics.reduce(
+                          (sum, m) => sum + m.effectiveGasPrice,
+                          BigInt(0)
+                      ) / BigInt(metrics.length)
+                    : BigInt(0),
+            feeBumpedTransactions: bumped.length,
+            feeBumpCost: bumped.reduce(
+                (sum, m) => sum + m.feeBumpCost,
+                BigInt(0)
+            ),
+            reorgs: reorgs.length,
+            reorgedTransactions: metrics.filter((m) => m.reorged).length,
+            ...(run.connection && { connection: run.connection }),
+        };
+    }
+
+    public static compare(a: SavedRun, b: SavedRun): RunComparison {
+        const summaryA = this.summarize(a);
+        const summaryB = this.summarize(b);
+
+        return {
+            a: summaryA,
+            b: summaryB,
+            changes: this.comparableValues(summaryA).map(
+                ([metric, valueA], index) =>
+                    this.change(
+                        metric,
+                        valueA,
+                        this.comparableValues(summaryB)[index][1]
+                    )
+            ),
+            configChanges: this.diffConfig(a.run.config, b.run.config),
+        };
+    }
+
+    public static print(summary: RunSummary): void {
+        console.log(
+            `\n📊 RUN REPORT ${summary.runId}${
+                summary.chainName ? ` (${summary.chainName})` : ''
+            }`
+        );
+        console.log('==========================================');
+        console.log(`Chain ID: ${summary.chainId}`);
+        if (summary.schedule) {
+            console.log(`Send schedule: ${summary.schedule}`);
+        }
+        if (summary.payload) {
+            console.log(`Payload: ${summary.payload}`);
+        }
+        console.log(
+            `Started: ${summary.startedAt} (${(
+                summary.durationMs / 1000
+            ).toFixed(1)}s)`
+        );
+        console.log(
+            `Transactions confirmed: ${summary.transactionsConfirmed}/${summary.transactionsSent}`
+        );
+        console.log(`Total gas used: ${summary.totalGasUsed.toString()}`);
+        console.log(
+            `Average effective gas price: ${ethers.formatUnits(
+                summary.avgEffectiveGasPrice,
+                'gwei'
+            )} gwei`
+        );
+        console.log(
+            `Total fees paid: ${ethers.formatEther(summary.totalFeesPaid)} ETH`
+        );
+        if (summary.feeBumpedTransactions > 0) {
+            console.log(
+                `Fee-bumped transactions: ${
+                    summary.feeBumpedTransactions
+                } (total bump cost ${ethers.formatEther(
+                    summary.feeBumpCost
+                )} ETH)`
+            );
+        }
+        if (summary.reorgs > 0) {
+            console.log(
+                `Reorgs detected: ${summary.reorgs} (${summary.reorgedTransactions} transactions re-confirmed after a reorg)`
+            );
+        }
+        this.printConnection(summary);
+        this.printStatistics(summary);
+    }
+
+    /**
+     * Reconnects, downtime and backfilled blocks of the block source and
+     * mempool observer. Results written before these were tracked have none.
+     */
+    public static printConnection(
+        summary: RunSummary,
+        logger: Logger = console
+    ): void {
+        if (!summary.connection) return;
+
+        const c = summary.connection;
+        logger.log(
+            `Block source (${c.blockSource}): ${c.reconnects} reconnects, ${(
+                c.downtimeMs / 1000
+            ).toFixed(1)}s downtime, ${c.backfilledBlocks} blocks backfilled`
+        );
+        if (c.mempoolReconnects !== undefined) {
+            logger.log(
+                `Mempool observer: ${c.mempoolReconnects} reconnects, ${(
+                    (c.mempoolDowntimeMs ?? 0) / 1000
+                ).toFixed(1)}s downtime`
+            );
+        }
+    }
+
+    public static printComparison(comparison: RunComparison): void {
+        const { a, b } = comparison;
+        console.log('\n📊 RUN COMPARISON');
+        console.log('=================');
+        console.log(`A: ${a.runId}${a.chainName ? ` (${a.chainName})` : ''}`);
+        console.log(`B: ${b.runId}${b.chainName ? ` (${b.chainName})` : ''}`);
+        console.log('');
+
+        const header = [
+            'Metric'.padEnd(38),
+            'A'.padStart(12),
+            'B'.padStart(12),
+            'Delta'.padStart(12),
+            'Delta %'.padStart(9),
+        ].join(' ');
+        console.log(header);
+        console.log('-'.repeat(header.length));
+
+        for (const change of comparison.changes) {
+            console.log(
+                [
+                    change.metric.padEnd(38),
+                    this.formatNumber(change.a).padStart(12),
+                    this.formatNumber(change.b).padStart(12),
+                    `${change.delta > 0 ? '+' : ''}${this.formatNumber(
+                        change.delta
+                    )}`.padStart(12),
+                    (change.deltaPercent === null
+                        ? '-'
+                        : `${
+                              change.deltaPercent > 0 ? '+' : ''
+                          }${change.deltaPercent.toFixed(1)}%`
+                    ).padStart(9),
+                ].join(' ')
+            );
+        }
+
+        if (comparison.configChanges.length > 0) {
+            console.log('\nConfiguration differences:');
+            for (const change of comparison.configChanges) {
+                console.log(
+                    `   ${change.key}: ${JSON.stringify(
+                        change.a
+                    )} -> ${JSON.stringify(change.b)}`
+                );
+            }
+        }
+    }
+
+    /**
+     * Prints the blocks-to-confirm and confirmation-time distributions and
+     * a blocks-to-confirm histogram for all sends and per send-timing bucket.
+     */
+    public static printStatistics(
+        summary: RunSummary,
+        logger: Logger = console
+    ): void {
+        if (summary.transactionsConfirmed === 0) return;
+
+        this.printDistribution(
+            logger,
+            'Blocks to confirm',
+            summary.blocksToConfirm
+        );
+        this.printDistribution(
+            logger,
+            'Confirmation time',
+            summary.confirmationTimeMs,
+            'ms'
+        );
+        this.printCongestion(logger, summary);
+        this.printLatencyBreakdown(logger, summary);
+        this.printFeeCurve(logger, summary);
+        if (summary.burstPositions.length > 1) {
+            logger.log(
+                `Blocks to confirm by burst position: ${summary.burstPositions
+                    .map(
+                        (p) =>
+                            `#${
+                                p.burstIndex + 1
+                            } median ${p.blocksToConfirm.median.toFixed(
+                                1
+                            )} (n=${p.blocksToConfirm.count})`
+                    )
+                    .join(', ')}`
+            );
+        }
+        if (summary.senders.length > 1) {
+            logger.log(
+                `Blocks to confirm by sender: ${summary.senders
+                    .map(
+                        (s) =>
+                            `${SenderPool.label(
+                                s.sender
+                            )} median ${s.blocksToConfirm.median.toFixed(
+                                1
+                            )} (n=${s.blocksToConfirm.count})`
+                    )
+                    .join(', ')}`
+            );
+        }
+        this.printRoutes(logger, summary);
+        if (summary.mempoolObserved > 0) {
+            const ms = summary.timeToMempoolMs;
+            logger.log(
+                `Time to mempool: seen ${summary.mempoolSeen}/${
+                    summary.mempoolObserved
+                }${
+                    ms.count > 0
+                        ? `, min ${ms.min}ms, median ${ms.median.toFixed(
+                              0
+                          )}ms, p90 ${ms.p90.toFixed(0)}ms, max ${ms.max}ms`
+                        : ''
+                }`
+            );
+        }
+
+        logger.log(
+            '\nBlocks-to-confirm histogram by send timing (delay after the sent block timestamp):'
+        );
+        this.printHistogram(
+            logger,
+            `All sends (n=${summary.transactionsConfirmed})`,
+            summary.blocksHistogram
+        );
+        for (const bucket of summary.sendTiming) {
+            this.printHistogram(
+                logger,
+                `Sent ${bucket.label} after block (n=${
+                    bucket.blocksToConfirm.count
+                }, median ${bucket.blocksToConfirm.median.toFixed(
+                    1
+                )}, p90 ${bucket.blocksToConfirm.p90.toFixed(1)})`,
+                bucket.histogram
+            );
+        }
+    }
+
+    private static printDistribution(
+        logger: Logger,
+        label: string,
+        distribution: DistributionSummary,
+        unit = ''
+    ): void {
+        const format = (value: number) =>
+            `${unit ? value.toFixed(0) : value.toFixed(2)}${unit}`;
+        logger.log(
+            `${label}: min ${format(distribution.min)}, median ${format(
+                distribution.median
+            )}, avg ${format(distribution.mean)}, p90 ${format(
+                distribution.p90
+            )}, p99 ${format(distribution.p99)}, max ${format(
+                distribution.max
+            )}, stddev ${format(distribution.stddev)}`
+        );
+    }
+
+    /**
+     * Splits blocks-to-confirm by whether the sent block was full, to tell
+     * congestion apart from an insufficient fee.
+     */
+    private static printCongestion(logger: Logger, summary: RunSummary): void {
+        const full = summary.blocksToConfirmAfterFullBlock;
+        const notFull = summary.blocksToConfirmAfterNonFullBlock;
+        if (full.count + notFull.count > 0) {
+            logger.log(
+                `Sent after a full block: ${
+                    full.count
+                } (median ${full.median.toFixed(
+                    1
+                )} blocks), after a non-full block: ${
+                    notFull.count
+                } (median ${notFull.median.toFixed(1)} blocks)`
+            );
+        }
+        if (summary.avgConfirmedBlockGasUsedRatio !== null) {
+            logger.log(
+                `Average confirming block fullness: ${(
+                    summary.avgConfirmedBlockGasUsedRatio * 100
+                ).toFixed(1)}%`
+            );
+        }
+    }
+
+    private static printLatencyBreakdown(
+        logger: Logger,
+        summary: RunSummary
+    ): void {
+        const stages = summary.latencyBreakdown.filter((s) => s.ms.count > 0);
+        if (stages.length === 0) return;
+
+        logger.log('\nLatency breakdown (ms):');
+        logger.log(
+            [
+                '  Stage'.padEnd(28),
+                'median'.padStart(8),
+                'avg'.padStart(8),
+                'p90'.padStart(8),
+                'p99'.padStart(8),
+                'max'.padStart(8),
+            ].join(' ')
+        );
+        for (const { label, ms } of stages) {
+            logger.log(
+                [
+                    `  ${label}`.padEnd(28),
+                    ...[ms.median, ms.mean, ms.p90, ms.p99, ms.max].map((v) =>
+                        v.toFixed(0).padStart(8)
+                    ),
+                ].join(' ')
+            );
+        }
+        if (summary.signingMs.count > 0) {
+            logger.log(
+                `  Signed ahead of the block: ${
+                    summary.presignedTransactions
+                }/${
+                    summary.signingMs.count
+                } (signing median ${summary.signingMs.median.toFixed(
+                    0
+                )}ms, max ${summary.signingMs.max.toFixed(0)}ms)`
+            );
+        }
+    }
+
+    /**
+     * Fee paid against blocks-to-confirm, cheapest row first; the cost /
+     * latency curve fee policies are set from.
+     */
+    private static printFeeCurve(logger: Logger, summary: RunSummary): void {
+        if (summary.feeCurve.length < 2) return;
+
+        logger.log('\nFee paid vs. blocks to confirm (tips in gwei):');
+        logger.log(
+            [
+                '  Group'.padEnd(12),
+                'n'.padStart(5),
+                'tip offered'.padStart(12),
+                'tip paid'.padStart(10),
+                'fee/tx (ETH)'.padStart(14),
+                'median'.padStart(8),
+                'avg'.padStart(8),
+                'p90'.padStart(8),
+            ].join(' ')
+        );
+        for (const row of summary.feeCurve) {
+            const blocks = row.blocksToConfirm;
+            logger.log(
+                [
+                    `  ${row.label}`.padEnd(12),
+                    `${row.count}`.padStart(5),
+                    this.formatNumber(row.avgTipOfferedGwei).padStart(12),
+                    this.formatNumber(row.avgTipPaidGwei).padStart(10),
+                    row.avgFeePaidEth.toPrecision(3).padStart(14),
+                    ...[blocks.median, blocks.mean, blocks.p90].map((v) =>
+                        v.toFixed(1).padStart(8)
+                    ),
+                ].join(' ')
+            );
+        }
+    }
+
+    private static printRoutes(logger: Logger, summary: RunSummary): void {
+        if (summary.routes.length === 0) return;
+
+        logger.log('Submission routes:');
+        logger.log(
+            `  ${'Route'.padEnd(8)} ${'n'.padStart(4)} ${'blocks p50'.padStart(
+                10
+            )} ${'blocks p90'.padStart(10)} ${'incl. ms p50'.padStart(12)}${
+                summary.mempoolObserved > 0 ? '  mempool seen' : ''
+            }`
+        );
+        for (const r of summary.routes) {
+            logger.log(
+                `  ${r.route.padEnd(8)} ${String(r.count).padStart(
+                    4
+                )} ${r.blocksToConfirm.median
+                    .toFixed(1)
+                    .padStart(10)} ${r.blocksToConfirm.p90
+                    .toFixed(1)
+                    .padStart(10)} ${(r.inclusionMs.count > 0
+                    ? r.inclusionMs.median.toFixed(0)
+                    : '-'
+                ).padStart(12)}${
+                    summary.mempoolObserved > 0
+                        ? `  ${r.mempoolSeen}/${r.count}`
+                        : ''
+                }`
+            );
+        }
+    }
+
+    private static averageRatio(ratios: (number | undefined)[]): number | null {
+        const known = ratios.filter((r): r is number => r !== undefined);
+        return known.length > 0 ? mean(known) : null;
+    }
+
+    private static printHistogram(
+        logger: Logger,
+        title: string,
+        bins: HistogramBin[]
+    ): void {
+        logger.log(`  ${title}`);
+        const maxCount = Math.max(...bins.map((b) => b.count));
+        const labels = bins.map((b) =>
+            b.from === b.to ? `${b.from}` : `${b.from}-${b.to}`
+        );
+        const width = Math.max(...labels.map((l) => l.length));
+
+        bins.forEach((bin, index) => {
+            const bar = '█'.repeat(
+                Math.round((bin.count / maxCount) * HISTOGRAM_WIDTH)
+            );
+            logger.log(
+                `    ${labels[index].padStart(width)} │${bar} ${bin.count}`
+            );
+        });
+    }
+
+    private static bySendTiming(
+        metrics: ConfirmationMetrics[]
+    ): SendTimingBucket[] {
+        const delays = metrics.map(
+            (m) =>
+                m.sentTimestamp -
+                parseInt(m.sentBlockTimestamp || '0', 16) * 1000
+        );
+
+        return SEND_TIMING_BUCKETS.map(([label, fromMs, toMs]) => {
+            // Negative delays (local clock behind the chain) count as <1s
+            const blocks = metrics
+                .filter((_m, i) => {
+                    const delay = Math.max(0, delays[i]);
+                    return delay >= fromMs && (toMs === null || delay < toMs);
+                })
+                .map((m) => m.blocksToConfirm);
+            return {
+                label,
+                fromMs,
+                toMs,
+                blocksToConfirm: summarize(blocks),
+                histogram: histogram(blocks),
+            };
+        }).filter((bucket) => bucket.blocksToConfirm.count > 0);
+    }
+
+    /**
+     * Groups blocks-to-confirm by a transaction's position within its burst,
+     * to show whether later transactions of a burst land later.
+     */
+    private static byBurstPosition(
+        metrics: ConfirmationMetrics[]
+    ): BurstPositionSummary[] {
+        const positions = new Map<number, number[]>();
+        for (const m of metrics) {
+            // Results written before send schedules lack burstIndex
+            const index = m.burstIndex ?? 0;
+            positions.set(index, [
+                ...(positions.get(index) ?? []),
+                m.blocksToConfirm,
+            ]);
+        }
+        if (positions.size < 2) return [];
+
+        return [...positions.entries()]
+            .sort(([a], [b]) => a - b)
+            .map(([burstIndex, blocks]) => ({
+                burstIndex,
+                blocksToConfirm: summarize(blocks),
+            }));
+    }
+
+    /**
+     * One row per fee tier when the tiers strategy set them, otherwise one
+     * per quartile of the tip paid (a single row when every tip was equal).
+     */
+    private static feeCurve(metrics: ConfirmationMetrics[]): FeeCurveRow[] {
+        const gwei = (value?: bigint) =>
+            Number(ethers.formatUnits(value ?? BigInt(0), 'gwei'));
+        const tipPaid = (m: ConfirmationMetrics) =>
+            gwei(m.effectivePriorityFee);
+
+        const groups = new Map<string, ConfirmationMetrics[]>();
+        const add = (label: string, m: ConfirmationMetrics) =>
+            groups.set(label, [...(groups.get(label) ?? []), m]);
+
+        if (metrics.some((m) => m.feeTier)) {
+            metrics.forEach((m) => add(m.feeTier ?? 'untiered', m));
+        } else if (new Set(metrics.map(tipPaid)).size > 1) {
+            const sorted = [...metrics].sort((a, b) => tipPaid(a) - tipPaid(b));
+            const quartiles = Math.min(4, sorted.length);
+            sorted.forEach((m, i) =>
+                add(`Q${Math.floor((i * quartiles) / sorted.length) + 1}`, m)
+            );
+        } else if (metrics.length > 0) {
+            metrics.forEach((m) => add('all', m));
+        }
+
+        return [...groups.entries()]
+            .map(([label, group]) => ({
+                label,
+                count: group.length,
+                avgTipOfferedGwei: mean(
+                    group.map((m) =>
+                        gwei(m.maxPriorityFeePerGas ?? m.effectiveGasPrice)
+                    )
+                ),
+                avgTipPaidGwei: mean(group.map(tipPaid)),
+                avgFeePaidEth: mean(
+                    group.map((m) =>
+                        Number(
+                            ethers.formatEther(m.gasUsed * m.effectiveGasPrice)
+                        )
+                    )
+                ),
+                blocksToConfirm: summarize(group.map((m) => m.blocksToConfirm)),
+            }))
+            .sort((a, b) => a.avgTipOfferedGwei - b.avgTipOfferedGwei);
+    }
+
+    /**
+     * Groups blocks-to-confirm by sending wallet, in order of first send.
+     */
+    private static bySender(metrics: ConfirmationMetrics[]): SenderSummary[] {
+        const senders = new Map<string, number[]>();
+        for (const m of [...metrics].sort(
+            (a, b) => a.sentTimestamp - b.sentTimestamp
+        )) {
+            // Results written before sender pools lack the sender
+            if (!m.sender) continue;
+            senders.set(m.sender, [
+                ...(senders.get(m.sender) ?? []),
+                m.blocksToConfirm,
+            ]);
+        }
+        if (senders.size < 2) return [];
+
+        return [...senders.entries()].map(([sender, blocks]) => ({
+            sender,
+            blocksToConfirm: summarize(blocks),
+        }));
+    }
+
+    /**
+     * Groups confirmations by submission route, so public and relay sends
+     * in one run can be compared. Empty when everything went public.
+     */
+    private static byRoute(metrics: ConfirmationMetrics[]): RouteSummary[] {
+        const routes = new Map<SubmissionRoute, ConfirmationMetrics[]>();
+        for (const m of metrics) {
+            // Results written before relay support were all public
+            const route = m.route ?? 'public';
+            routes.set(route, [...(routes.get(route) ?? []), m]);
+        }
+        if (!routes.has('private') && !routes.has('bundle')) return [];
+
+        return [...routes.entries()].map(([route, group]) => ({
+            route,
+            count: group.length,
+            blocksToConfirm: summarize(group.map((m) => m.blocksToConfirm)),
+            inclusionMs: summarize(
+                group
+                    .map((m) => m.inclusionMs)
+                    .filter((ms): ms is number => ms !== undefined)
+            ),
+            mempoolSeen: group.filter((m) => m.mempoolSeen === true).length,
+        }));
+    }
+
+    /**
+     * The summary figures worth diffing, as plain numbers (gas prices in
+     * gwei, fees in ETH).
+     */
+    private static comparableValues(summary: RunSummary): [string, number][] {
+        return [
+            ['Confirmed', summary.transactionsConfirmed],
+            ['Blocks to confirm (avg)', summary.blocksToConfirm.mean],
+            ['Blocks to confirm (median)', summary.blocksToConfirm.median],
+            ['Blocks to confirm (p95)', summary.blocksToConfirm.p95],
+            ['Blocks to confirm (p99)', summary.blocksToConfirm.p99],
+            ['Time to confirm ms (avg)', summary.confirmationTimeMs.mean],
+            ['Time to confirm ms (median)', summary.confirmationTimeMs.median],
+            ['Time to confirm ms (p95)', summary.confirmationTimeMs.p95],
+            ['Time to confirm ms (p99)', summary.confirmationTimeMs.p99],
+            ['Time to mempool ms (median)', summary.timeToMempoolMs.median],
+            ['Presigned', summary.presignedTransactions],
+            ['Signing ms (median)', summary.signingMs.median],
+            ...summary.latencyBreakdown.map(
+                ({ label, ms }): [string, number] => [
+                    `${label} ms (median)`,
+                    ms.median,
+                ]
+            ),
+            [
+                'Gas price gwei (avg)',
+                Number(
+                    ethers.formatUnits(summary.avgEffectiveGasPrice, 'gwei')
+                ),
+            ],
+            [
+                'Fees paid ETH',
+                Number(ethers.formatEther(summary.totalFeesPaid)),
+            ],
+            ['Fee-bumped transactions', summary.feeBumpedTransactions],
+            ['Reorgs', summary.reorgs],
+        ];
+    }
+
+    private static change(metric: string, a: number, b: number): MetricChange {
+        return {
+            metric,
+            a,
+            b,
+            delta: b - a,
+            deltaPercent: a !== 0 ? ((b - a) / Math.abs(a)) * 100 : null,
+        };
+    }
+
+    private static diffConfig(
+        a: ConfigSnapshot,
+        b: ConfigSnapshot
+    ): ConfigChange[] {
+        const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+        return [...keys]
+            .filter(
+                (key) =>
+                    JSON.stringify(a[key as keyof ConfigSnapshot]) !==
+                    JSON.stringify(b[key as keyof ConfigSnapshot])
+            )
+            .map((key) => ({
+                key,
+                a: a[key as keyof ConfigSnapshot],
+                b: b[key as keyof ConfigSnapshot],
+            }));
+    }
+
+    private static formatNumber(value: number): string {
+        if (Number.isInteger(value)) return value.toString();
+        return Math.abs(value) < 0.01 ? value.toPrecision(3) : value.toFixed(2);
+    }
+}
@@ -0,0 +1,81 @@
+import { SendScheduler } from './SendScheduler';
+
+describe('SendScheduler', () => {
+    const counts = (scheduler: SendScheduler, from: number, to: number) =>
+        Array.from(
+            { length: to - from + 1 },
+            (_, i) => scheduler.plan({ number: from + i }).count
+        );
+
+    it('parses and describes schedule specs', () => {
+        for (const spec of [
+            'every-block',
+            'every:3',
+            'burst:5',
+            'random:2-4',
+        ]) {
+            expect(
+                SendScheduler.describe(SendScheduler.parseSchedule(spec))
+            ).toBe(spec);
+        }
+        expect(SendScheduler.parseSchedule('random:3')).toEqual({
+            mode: 'random',
+            minBlocks: 3,
+            maxBlocks: 3,
+        });
+        expect(() => SendScheduler.parseSchedule('every:0')).toThrow();
+        expect(() => SendScheduler.parseSchedule('random:4-2')).toThrow();
+        expect(() => SendScheduler.parseSchedule('sometimes')).toThrow();
+    });
+
+    it('parses conditions', () => {
+        expect(
+            SendScheduler.parseConditions('baseFee<20, gasUsedRatio>=0.9')
+        ).toEqual([
+            { field: 'baseFee', operator: '<', value: 20 },
+            { field: 'gasUsedRatio', operator: '>=', value: 0.9 },
+        ]);
+        expect(SendScheduler.parseConditions('')).toEqual([]);
+        expect(() => SendScheduler.parseConditions('gasPrice<20')).toThrow();
+    });
+
+    it('sends every Nth block and bursts of K', () => {
+        expect(
+            counts(new SendScheduler({ mode: 'every-n', blocks: 3 }), 10, 16)
+        ).toEqual([1, 0, 0, 1, 0, 0, 1]);
+        expect(
+            counts(new SendScheduler({ mode: 'burst', transactions: 4 }), 1, 2)
+        ).toEqual([4, 4]);
+    });
+
+    it('draws random gaps within the range', () => {
+        const draws = [0, 0.99];
+        const scheduler = new SendScheduler(
+            { mode: 'random', minBlocks: 2, maxBlocks: 4 },
+            [],
+            () => draws.shift() ?? 0
+        );
+        // Gap of 2 after block 1, then 4 after block 3
+        expect(counts(scheduler, 1, 7)).toEqual([1, 0, 1, 0, 0, 0, 1]);
+    });
+
+    it('holds a due send until the block meets every condition', () => {
+        const scheduler = new SendScheduler({ mode: 'every-block' }, [
+            { field: 'baseFee', operator: '<', value: 20 },
+            { field: 'txCount', operator: '>', value: 100 },
+        ]);
+        expect(scheduler.needs('txCount')).toBe(true);
+        expect(scheduler.needs('gasUsedRatio')).toBe(false);
+
+        expect(
+            scheduler.plan({ number: 1, baseFeeGwei: 25, txCount: 150 })
+        ).toEqual({ count: 0, reason: 'baseFee<20 not met (baseFee=25)' });
+        expect(scheduler.plan({ number: 2, baseFeeGwei: 10 })).toEqual({
+            count: 0,
+            reason: 'txCount>100 not met (txCount unknown)',
+        });
+        expect(
+            scheduler.plan({ number: 3, baseFeeGwei: 10, txCount: 150 }).count
+        ).toBe(1);
+    });
+});
@@ -0,0 +1,223 @@
+import { BlockConditionField, SendCondition, SendSchedule } from '../types';
+
+// What the scheduler knows about a block; unknown facts fail any condition on them
+export interface BlockFacts {
+    number: number;
+    baseFeeGwei?: number;
+    txCount?: number;
+    gasUsedRatio?: number;
+}
+
+export interface SendPlan {
+    count: number; // Transactions to send on this block, 0 = skip
+    reason?: string; // Why the block was skipped
+}
+
+const CONDITION_FIELDS: BlockConditionField[] = [
+    'baseFee',
+    'txCount',
+    'gasUsedRatio',
+];
+
+/**
+ * Decides how many transactions to send on each block. A schedule sets the
+ * gap between sends (every block, every N blocks, a random number of blocks)
+ * and how many transactions go out together; conditions hold back a due
+ * send until a block meets all of them.
+ */
+export class SendScheduler {
+    private nextDueBlock: number | null = null;
+    public readonly tag: string;
+
+    constructor(
+        private readonly schedule: SendSchedule,
+        private readonly conditions: SendCondition[] = [],
+        private readonly random: () => number = Math.random
+    ) {
+        this.tag = SendScheduler.describe(schedule, conditions);
+    }
+
+    public needs(field: BlockConditionField): boolean {
+        return this.conditions.some((c) => c.field === field);
+    }
+
+    public plan(block: BlockFacts): SendPlan {
+        if (this.nextDueBlock !== null && block.number < this.nextDueBlock) {
+            return {
+                count: 0,
+                reason: `next send due at block #${this.nextDueBlock}`,
+            };
+        }
+
+        const failed = this.conditions.find(
+            (c) => !SendScheduler.holds(c, block)
+        );
+        if (failed) {
+            return {
+                count: 0,
+                reason: `${SendScheduler.describeCondition(
+                    failed
+                )} not met (${SendScheduler.actual(failed.field, block)})`,
+            };
+        }
+
+        this.nextDueBlock = block.number + this.gap();
+        return {
+            count:
+                this.schedule.mode === 'burst' ? this.schedule.transactions : 1,
+        };
+    }
+
+    private gap(): number {
+        switch (this.schedule.mode) {
+            case 'every-n':
+                return this.schedule.blocks;
+            case 'random': {
+                const { minBlocks, maxBlocks } = this.schedule;
+                return (
+                    minBlocks +
+                    Math.floor(this.random() * (maxBlocks - minBlocks + 1))
+                );
+            }
+            default:
+                return 1;
+        }
+    }
+
+    private static holds(condition: SendCondition, block: BlockFacts): boolean {
+        const actual = this.value(condition.field, block);
+        if (actual === undefined) return false;
+
+        switch (condition.operator) {
+            case '<':
+                return actual < condition.value;
+            case '<=':
+                return actual <= condition.value;
+            case '>':
+                return actual > condition.value;
+            case '>=':
+                return actual >= condition.value;
+        }
+    }
+
+    private static value(
+        field: BlockConditionField,
+        block: BlockFacts
+    ): number | undefined {
+        switch (field) {
+            case 'baseFee':
+                return block.baseFeeGwei;
+            case 'txCount':
+                return block.txCount;
+            case 'gasUsedRatio':
+                return block.gasUsedRatio;
+        }
+    }
+
+    private static actual(
+        field: BlockConditionField,
+        block: BlockFacts
+    ): string {
+        const value = this.value(field, block);
+        return value === undefined ? `${field} unknown` : `${field}=${value}`;
+    }
+
+    /**
+     * Parses a schedule spec: `every-block`, `every:N`, `burst:K` or
+     * `random:MIN-MAX` (blocks between sends).
+     */
+    public static parseSchedule(raw: unknown): SendSchedule {
+        const spec = String(raw).trim().toLowerCase();
+        if (spec === 'every-block') return { mode: 'every-block' };
+
+        const [mode, arg = ''] = spec.split(':');
+        const positive = (value: string) => {
+            const num = Number(value);
+            if (!Number.isInteger(num) || num < 1) {
+                throw new Error(
+                    `"${spec}" needs a positive whole number, got "${value}"`
+                );
+            }
+            return num;
+        };
+
+        switch (mode) {
+            case 'every':
+                return { mode: 'every-n', blocks: positive(arg) };
+            case 'burst':
+                return { mode: 'burst', transactions: positive(arg) };
+            case 'random': {
+                const [min, max = min] = arg.split('-');
+                const schedule: SendSchedule = {
+                    mode: 'random',
+                    minBlocks: positive(min),
+                    maxBlocks: positive(max),
+                };
+                if (schedule.maxBlocks < schedule.minBlocks) {
+                    throw new Error(`"${spec}" has MAX below MIN`);
+                }
+                return schedule;
+            }
+            default:
+                throw new Error(
+                    `must be every-block, every:N, burst:K or random:MIN-MAX, got "${spec}"`
+                );
+        }
+    }
+
+    /**
+     * Parses comma-separated conditions such as `baseFee<20,txCount>100`.
+     */
+    public static parseConditions(raw: unknown): SendCondition[] {
+        const items = Array.isArray(raw) ? raw : String(raw).split(',');
+        return items
+            .map((item) => String(item).trim())
+            .filter(Boolean)
+            .map((item) => {
+                const match = item.match(/^(\w+)\s*(<=|>=|<|>)\s*([\d.]+)$/);
+                const field = match?.[1] as BlockConditionField;
+                if (!match || !CONDITION_FIELDS.includes(field)) {
+                    throw new Error(
+                        `conditions look like baseFee<20, txCount>100 or gasUsedRatio>=0.9, got "${item}"`
+                    );
+                }
+                return {
+                    field,
+                    operator: match[2] as SendCondition['operator'],
+                    value: Number(match[3]),
+                };
+            });
+    }
+
+    public static describe(
+        schedule: SendSchedule,
+        conditions: SendCondition[] = []
+    ): string {
+        let text: string;
+        switch (schedule.mode) {
+            case 'every-n':
+                text = `every:${schedule.blocks}`;
+                break;
+            case 'burst':
+                text = `burst:${schedule.transactions}`;
+                break;
+            case 'random':
+                text = `random:${schedule.minBlocks}-${schedule.maxBlocks}`;
+                break;
+            default:
+                text = 'every-block';
+        }
+
+        return conditions.length > 0
+            ? `${text} when ${this.describeConditions(conditions)}`
+            : text;
+    }
+
+    public static describeConditions(conditions: SendCondition[]): string {
+        return conditions.map((c) => this.describeCondition(c)).join(',');
+    }
+
+    private static describeCondition(condition: SendCondition): string {
+        return `${condition.field}${condition.operator}${condition.value}`;
+    }
+}
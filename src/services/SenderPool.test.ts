@@ -0,0 +1,36 @@
+import { ethers } from 'ethers';
+import { SenderPool } from './SenderPool';
+import { TEST_EXTRA_KEYS, TEST_PRIVATE_KEY } from '../testing/helpers';
+import { WalletSelection } from '../types';
+
+describe('SenderPool', () => {
+    const pool = (selection: WalletSelection) =>
+        new SenderPool(
+            [TEST_PRIVATE_KEY, ...TEST_EXTRA_KEYS],
+            new ethers.JsonRpcProvider(),
+            selection,
+            () => Promise.reject(new Error('not used'))
+        );
+    const indexes = (lanes: { index: number }[]) => lanes.map((l) => l.index);
+
+    it('gives each key its own lane', () => {
+        const senders = pool('round-robin');
+        expect(senders.addresses).toHaveLength(3);
+        expect(new Set(senders.lanes.map((l) => l.nonceManager)).size).toBe(3);
+        expect(senders.get(senders.addresses[1])?.index).toBe(1);
+    });
+
+    it('takes lanes in turn across blocks with round-robin', () => {
+        const senders = pool('round-robin');
+        expect(indexes(senders.assign(1, 10))).toEqual([0]);
+        expect(indexes(senders.assign(4, 10))).toEqual([1, 2, 0, 1]);
+        expect(indexes(senders.assign(3, 1))).toEqual([2]);
+    });
+
+    it('sends from every lane on each block with fan-out', () => {
+        const senders = pool('fan-out');
+        expect(indexes(senders.assign(1, 10))).toEqual([0, 1, 2]);
+        expect(indexes(senders.assign(2, 10))).toEqual([0, 0, 1, 1, 2, 2]);
+        expect(indexes(senders.assign(1, 2))).toEqual([0, 1]);
+    });
+});
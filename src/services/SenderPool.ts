@@ -0,0 +1,102 @@
+import { ethers } from 'ethers';
+import { Logger, WalletSelection } from '../types';
+import { NonceManager } from './NonceManager';
+import {
+    TransactionPresigner,
+    UnsignedTransaction,
+} from './TransactionPresigner';
+
+// One sender key with its own nonce sequence and pre-signed transaction
+export interface SenderLane {
+    index: number;
+    wallet: ethers.Wallet;
+    nonceManager: NonceManager;
+    presigner: TransactionPresigner;
+}
+
+/**
+ * The wallets transactions are sent from. Each lane has its own nonces, so
+ * a stuck transaction only holds back later sends from the same wallet.
+ * Lanes are picked in turn (`round-robin`) or every lane sends on each
+ * block (`fan-out`).
+ */
+export class SenderPool {
+    public readonly lanes: SenderLane[];
+    private nextLane = 0;
+
+    constructor(
+        privateKeys: string[],
+        provider: ethers.Provider,
+        private readonly selection: WalletSelection,
+        build: (
+            lane: SenderLane,
+            nonce: number
+        ) => Promise<UnsignedTransaction>,
+        logger: Logger = console
+    ) {
+        this.lanes = privateKeys.map((key, index) => {
+            const wallet = new ethers.Wallet(key, provider);
+            const nonceManager = new NonceManager(wallet);
+            const lane: SenderLane = {
+                index,
+                wallet,
+                nonceManager,
+                presigner: new TransactionPresigner(
+                    wallet,
+                    nonceManager,
+                    (nonce) => build(lane, nonce),
+                    logger
+                ),
+            };
+            return lane;
+        });
+    }
+
+    public get primary(): SenderLane {
+        return this.lanes[0];
+    }
+
+    public get addresses(): string[] {
+        return this.lanes.map((lane) => lane.wallet.address);
+    }
+
+    public get(address: string): SenderLane | undefined {
+        return this.lanes.find((lane) => lane.wallet.address === address);
+    }
+
+    /**
+     * Picks the lanes for the `count` transactions planned on one block, at
+     * most `limit` of them. Fan-out sends `count` from every lane.
+     */
+    public assign(count: number, limit: number): SenderLane[] {
+        if (this.selection === 'fan-out') {
+            return this.lanes
+                .flatMap((lane) => Array<SenderLane>(count).fill(lane))
+                .slice(0, limit);
+        }
+
+        return Array.from(
+            { length: Math.min(count, limit) },
+            () => this.lanes[this.nextLane++ % this.lanes.length]
+        );
+    }
+
+    public async sync(): Promise<void> {
+        await Promise.all(this.lanes.map((lane) => lane.nonceManager.sync()));
+    }
+
+    public async refresh(): Promise<void> {
+        await Promise.all(this.lanes.map((lane) => lane.presigner.refresh()));
+    }
+
+    public discard(): void {
+        this.lanes.forEach((lane) => lane.presigner.discard());
+    }
+
+    /**
+     * Short form of a sender address for logs, e.g. `0xf39F…2266`.
+     */
+    public static label(address: string): string {
+        return `${address.slice(0, 6)}…${address.slice(-4)}`;
+    }
+}
@@ -0,0 +1,123 @@
+import {
+    Counter,
+    Gauge,
+    Histogram,
+    MetricLabels,
+    MetricsRegistry,
+} from './MetricsRegistry';
+
+/**
+ * Prometheus instruments recorded by a single BlockchainService. All
+ * observations carry the same base labels so several services can share
+ * one registry.
+ */
+export class ServiceMetrics {
+    public readonly blocksToConfirm: Histogram;
+    public readonly confirmationTimeMs: Histogram;
+    public readonly transactionsSent: Counter;
+    public readonly transactionsConfirmed: Counter;
+    public readonly transactionsFailed: Counter;
+    public readonly pendingTransactions: Gauge;
+    public readonly blockSourceReconnects: Counter;
+    public readonly blockSourceDowntimeMs: Counter;
+    public readonly backfilledBlocks: Counter;
+    public readonly headBlock: Gauge;
+    public readonly gasCacheHits: Counter;
+    public readonly gasCacheMisses: Counter;
+    public readonly gasCacheHitRatio: Gauge;
+    public readonly feeBumps: Counter;
+    public readonly reorgs: Counter;
+    public readonly reorgDepth: Histogram;
+    public readonly timeToMempoolMs: Histogram;
+    public readonly mempoolMisses: Counter;
+
+    constructor(
+        public readonly registry: MetricsRegistry,
+        public readonly labels: MetricLabels = {}
+    ) {
+        this.blocksToConfirm = registry.histogram(
+            'block_reaction_blocks_to_confirm',
+            'Blocks between the reaction block and the inclusion block',
+            [0, 1, 2, 3, 5, 10, 20, 50]
+        );
+        this.confirmationTimeMs = registry.histogram(
+            'block_reaction_confirmation_time_ms',
+            'Milliseconds from sending a transaction to observing its receipt',
+            [500, 1000, 2000, 5000, 10000, 20000, 60000, 120000]
+        );
+        this.transactionsSent = registry.counter(
+            'block_reaction_transactions_sent_total',
+            'Transactions accepted by the RPC node'
+        );
+        this.transactionsConfirmed = registry.counter(
+            'block_reaction_transactions_confirmed_total',
+            'Transactions with an observed receipt'
+        );
+        this.transactionsFailed = registry.counter(
+            'block_reaction_transactions_failed_total',
+            'Transactions that failed to send or reverted'
+        );
+        this.pendingTransactions = registry.gauge(
+            'block_reaction_pending_transactions',
+            'Sent transactions still waiting for a receipt'
+        );
+        this.blockSourceReconnects = registry.counter(
+            'block_reaction_block_source_reconnects_total',
+            'Block source reconnections (WebSocket reconnects, filter reinstalls)'
+        );
+        this.blockSourceDowntimeMs = registry.counter(
+            'block_reaction_block_source_downtime_ms_total',
+            'Milliseconds the block source spent disconnected or failing'
+        );
+        this.backfilledBlocks = registry.counter(
+            'block_reaction_backfilled_blocks_total',
+            'Blocks missed while disconnected and fetched after reconnecting'
+        );
+        this.headBlock = registry.gauge(
+            'block_reaction_head_block',
+            'Most recent block number received from the block source'
+        );
+        this.gasCacheHits = registry.counter(
+            'block_reaction_gas_cache_hits_total',
+            'Transactions sent with cached gas data'
+        );
+        this.gasCacheMisses = registry.counter(
+            'block_reaction_gas_cache_misses_total',
+            'Transactions that had to fetch fresh gas data'
+        );
+        this.gasCacheHitRatio = registry.gauge(
+            'block_reaction_gas_cache_hit_ratio',
+            'Share of transactions sent with cached gas data'
+        );
+        this.feeBumps = registry.counter(
+            'block_reaction_fee_bumps_total',
+            'Replacement transactions sent for stuck transactions'
+        );
+        this.reorgs = registry.counter(
+            'block_reaction_reorgs_total',
+            'Chain reorganizations detected from block hashes'
+        );
+        this.reorgDepth = registry.histogram(
+            'block_reaction_reorg_depth',
+            'Number of blocks replaced by each reorganization',
+            [1, 2, 3, 5, 10, 20, 64]
+        );
+        this.timeToMempoolMs = registry.histogram(
+            'block_reaction_time_to_mempool_ms',
+            'Milliseconds from submitting a transaction to the mempool observer seeing it',
+            [50, 100, 250, 500, 1000, 2000, 5000, 10000]
+        );
+        this.mempoolMisses = registry.counter(
+            'block_reaction_mempool_misses_total',
+            'Confirmed transactions the mempool observer never saw'
+        );
+    }
+
+    public recordGasCacheLookup(cached: boolean): void {
+        (cached ? this.gasCacheHits : this.gasCacheMisses).inc(this.labels);
+
+        const hits = this.gasCacheHits.get(this.labels);
+        const misses = this.gasCacheMisses.get(this.labels);
+        this.gasCacheHitRatio.set(hits / (hits + misses), this.labels);
+    }
+}
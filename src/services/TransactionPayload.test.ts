@@ -0,0 +1,98 @@
+import { ethers } from 'ethers';
+import { TransactionPayload } from './TransactionPayload';
+import { MockNode } from '../testing/MockNode';
+import {
+    TEST_PRIVATE_KEY,
+    TEST_RECIPIENT,
+    mockConfig,
+} from '../testing/helpers';
+
+describe('TransactionPayload', () => {
+    const node = new MockNode();
+    const config = (overrides: Parameters<typeof mockConfig>[1] = {}) =>
+        mockConfig(node, overrides);
+
+    it('defaults to a plain transfer with the fixed gas limit', async () => {
+        const payload = new TransactionPayload(config());
+        expect(payload.tag).toBe('transfer');
+        expect(
+            await payload.request(new ethers.Wallet(TEST_PRIVATE_KEY))
+        ).toEqual({
+            to: TEST_RECIPIENT,
+            value: BigInt(10),
+            gasLimit: 21000,
+        });
+    });
+
+    it('encodes a contract call from a human-readable fragment', () => {
+        const payload = new TransactionPayload(
+            config({
+                contractAbi: 'approve(address spender, uint256 amount)',
+                contractArgs: [TEST_RECIPIENT, '1000'],
+            })
+        );
+        expect(payload.tag).toBe('approve(address,uint256)');
+        expect(payload.data).toBe(
+            new ethers.Interface([
+                'function approve(address,uint256)',
+            ]).encodeFunctionData('approve', [TEST_RECIPIENT, 1000])
+        );
+    });
+
+    it('picks the named function from a JSON ABI', () => {
+        const abi = JSON.stringify([
+            { type: 'function', name: 'ping', inputs: [] },
+            {
+                type: 'function',
+                name: 'store',
+                inputs: [{ name: 'value', type: 'uint256' }],
+            },
+        ]);
+        expect(TransactionPayload.encodeCall(abi, 'store', [7]).signature).toBe(
+            'store(uint256)'
+        );
+        expect(() => TransactionPayload.encodeCall(abi, '', [])).toThrow(
+            /declares 2 functions/
+        );
+    });
+
+    it('tags raw calldata by its selector', () => {
+        expect(
+            new TransactionPayload(config({ calldata: '0xa9059cbb0000' })).tag
+        ).toBe('calldata:0xa9059cbb');
+    });
+
+    it('reports payloads that cannot be encoded', () => {
+        expect(
+            TransactionPayload.check(
+                config({ contractAbi: 'ping()', calldata: '0x01' })
+            )
+        ).toMatch(/not both/);
+        expect(
+            TransactionPayload.check(
+                config({ contractAbi: 'store(uint256)', contractArgs: [] })
+            )
+        ).not.toBeNull();
+        expect(
+            TransactionPayload.check(config({ contractAbi: 'ping()' }))
+        ).toBeNull();
+    });
+
+    it('estimates the gas limit with headroom', async () => {
+        await node.start();
+        try {
+            const wallet = new ethers.Wallet(
+                TEST_PRIVATE_KEY,
+                new ethers.JsonRpcProvider(node.httpUrl)
+            );
+            const request = await new TransactionPayload(
+                config({ calldata: '0x0101', estimateGas: true })
+            ).request(wallet);
+            // 21000 + 2 non-zero bytes x 16, plus 20%
+            expect(request.gasLimit).toBe(BigInt(25238));
+            wallet.provider?.destroy();
+        } finally {
+            await node.stop();
+        }
+    });
+});
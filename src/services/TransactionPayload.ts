@@ -0,0 +1,137 @@
+import { ethers } from 'ethers';
+import { BlockReactionConfig } from '../types';
+
+// Added to estimateGas results; state can change before the tx is mined
+const GAS_ESTIMATE_HEADROOM_PERCENT = 20;
+
+type PayloadConfig = Pick<
+    BlockReactionConfig,
+    | 'recipientAddress'
+    | 'valueWei'
+    | 'calldata'
+    | 'contractAbi'
+    | 'contractFunction'
+    | 'contractArgs'
+    | 'gasLimit'
+    | 'estimateGas'
+>;
+
+/**
+ * What each reaction transaction carries: a plain transfer to the recipient,
+ * raw calldata, or a contract call encoded from an ABI fragment. Calldata is
+ * encoded once up front, so a bad ABI or argument fails at startup.
+ */
+export class TransactionPayload {
+    public readonly data: string; // '0x' for a plain transfer
+    public readonly tag: string; // e.g. "transfer", "approve(address,uint256)"
+
+    constructor(private readonly config: PayloadConfig) {
+        if (config.contractAbi) {
+            const call = TransactionPayload.encodeCall(
+                config.contractAbi,
+                config.contractFunction,
+                config.contractArgs
+            );
+            this.data = call.data;
+            this.tag = call.signature;
+        } else if (config.calldata) {
+            this.data = ethers.hexlify(config.calldata);
+            this.tag = `calldata:${ethers.dataSlice(
+                this.data,
+                0,
+                Math.min(4, ethers.dataLength(this.data))
+            )}`;
+        } else {
+            this.data = '0x';
+            this.tag = 'transfer';
+        }
+    }
+
+    /**
+     * The transaction request without nonce and fees. With `estimateGas` the
+     * gas limit comes from `eth_estimateGas` plus headroom instead of the
+     * fixed `gasLimit`.
+     */
+    public async request(
+        wallet: ethers.Wallet,
+        estimateGas = this.config.estimateGas
+    ): Promise<ethers.TransactionRequest> {
+        const request: ethers.TransactionRequest = {
+            to: this.config.recipientAddress,
+            value: BigInt(this.config.valueWei),
+            ...(this.data !== '0x' && { data: this.data }),
+        };
+        if (!estimateGas) {
+            return { ...request, gasLimit: this.config.gasLimit };
+        }
+
+        const estimate = await wallet.estimateGas(request);
+        return {
+            ...request,
+            gasLimit:
+                (estimate * BigInt(100 + GAS_ESTIMATE_HEADROOM_PERCENT)) /
+                BigInt(100),
+        };
+    }
+
+    /**
+     * Returns why the configured payload can't be encoded, or null.
+     */
+    public static check(config: PayloadConfig): string | null {
+        if (config.contractAbi && config.calldata) {
+            return 'set either contractAbi or calldata, not both';
+        }
+        try {
+            new TransactionPayload(config);
+            return null;
+        } catch (error) {
+            return error instanceof Error ? error.message : String(error);
+        }
+    }
+
+    /**
+     * Encodes a call from a JSON ABI or a human-readable fragment such as
+     * `function transfer(address to, uint256 amount)`. The function name may
+     * be omitted when the ABI declares a single function.
+     */
+    public static encodeCall(
+        abi: string,
+        functionName: string,
+        args: unknown[]
+    ): { data: string; signature: string } {
+        const iface = new ethers.Interface(this.parseAbi(abi));
+
+        let fragment: ethers.FunctionFragment | null;
+        if (functionName) {
+            fragment = iface.getFunction(functionName);
+            if (!fragment) {
+                throw new Error(`the ABI has no function "${functionName}"`);
+            }
+        } else {
+            const functions = iface.fragments.filter(
+                ethers.Fragment.isFunction
+            );
+            if (functions.length !== 1) {
+                throw new Error(
+                    `the ABI declares ${functions.length} functions; set contractFunction`
+                );
+            }
+            fragment = functions[0];
+        }
+
+        return {
+            data: iface.encodeFunctionData(fragment, args),
+            signature: fragment.format('sighash'),
+        };
+    }
+
+    private static parseAbi(abi: string): ethers.InterfaceAbi {
+        const trimmed = abi.trim();
+        if (trimmed.startsWith('[')) return JSON.parse(trimmed);
+        return [
+            /^(function|constructor|event|error)\s/.test(trimmed)
+                ? trimmed
+                : `function ${trimmed}`,
+        ];
+    }
+}
@@ -0,0 +1,107 @@
+import { ethers } from 'ethers';
+import { NonceManager } from './NonceManager';
+import {
+    TransactionPresigner,
+    UnsignedTransaction,
+} from './TransactionPresigner';
+import { MockNode } from '../testing/MockNode';
+import { TEST_PRIVATE_KEY, TEST_RECIPIENT, waitFor } from '../testing/helpers';
+import { FeeParams } from '../types';
+
+describe('TransactionPresigner', () => {
+    let node: MockNode;
+    let wallet: ethers.Wallet;
+    let nonceManager: NonceManager;
+    let gasDataUpdatedAt: number;
+    let presigner: TransactionPresigner;
+
+    const fees: FeeParams = {
+        type: 2,
+        maxFeePerGas: ethers.parseUnits('3', 'gwei'),
+        maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+    };
+
+    const build = async (nonce: number): Promise<UnsignedTransaction> => {
+        const request = { to: TEST_RECIPIENT, value: 1, gasLimit: 21000 };
+        return {
+            tx: { ...request, nonce, ...fees },
+            request,
+            fees,
+            gasDataUpdatedAt,
+        };
+    };
+
+    beforeEach(async () => {
+        node = new MockNode();
+        await node.start();
+        wallet = new ethers.Wallet(
+            TEST_PRIVATE_KEY,
+            new ethers.JsonRpcProvider(node.httpUrl)
+        );
+        nonceManager = new NonceManager(wallet);
+        await nonceManager.sync();
+        gasDataUpdatedAt = 1;
+        presigner = new TransactionPresigner(wallet, nonceManager, build);
+    });
+
+    afterEach(async () => {
+        await node.stop();
+    });
+
+    it('hands out the transaction signed ahead of time', async () => {
+        await presigner.refresh();
+
+        const signed = await presigner.take(gasDataUpdatedAt);
+
+        expect(signed.presigned).toBe(true);
+        expect(signed.nonce).toBe(0);
+        expect(ethers.Transaction.from(signed.signedTx).hash).toBe(signed.hash);
+    });
+
+    it('re-signs with the same nonce when gas data changed', async () => {
+        await presigner.refresh();
+        gasDataUpdatedAt = 2;
+
+        const signed = await presigner.take(gasDataUpdatedAt);
+
+        expect(signed.presigned).toBe(false);
+        expect(signed.nonce).toBe(0);
+        expect(signed.gasDataUpdatedAt).toBe(2);
+    });
+
+    it('gives the nonce back when discarded', async () => {
+        await presigner.refresh();
+        presigner.discard();
+
+        const signed = await presigner.take(gasDataUpdatedAt);
+
+        expect(signed.presigned).toBe(false);
+        expect(signed.nonce).toBe(0);
+    });
+
+    it('gives the nonce back when discarded while pre-signing', async () => {
+        let signing = false;
+        let unblock: () => void = () => undefined;
+        const blocked = new Promise<void>((resolve) => (unblock = resolve));
+        presigner = new TransactionPresigner(
+            wallet,
+            nonceManager,
+            async (nonce) => {
+                signing = true;
+                await blocked;
+                return build(nonce);
+            }
+        );
+
+        const refreshing = presigner.refresh();
+        await waitFor(() => signing, 5000, 'pre-sign to start');
+        presigner.discard();
+        unblock();
+        await refreshing;
+
+        // Nothing was kept, and the nonce is free again
+        const signed = await presigner.take(gasDataUpdatedAt);
+        expect(signed.presigned).toBe(false);
+        expect(signed.nonce).toBe(0);
+    });
+});
@@ -0,0 +1,152 @@
+import { ethers } from 'ethers';
+import { FeeParams, Logger, SignedTransaction } from '../types';
+import { NonceManager } from './NonceManager';
+
+export interface UnsignedTransaction {
+    tx: ethers.TransactionRequest; // Complete, including nonce and fees
+    request: ethers.TransactionRequest; // Payload without nonce and fees
+    fees: FeeParams;
+    gasDataUpdatedAt: number;
+    estimateError?: string; // Signed with the fixed gas limit instead
+}
+
+/**
+ * Keeps the next transaction signed ahead of time, so reacting to a block
+ * only takes an `eth_sendRawTransaction`. The prepared transaction holds a
+ * reserved nonce; refreshing it after a gas data change re-signs with the
+ * same nonce and the new fees.
+ */
+export class TransactionPresigner {
+    private next: SignedTransaction | null = null;
+    private queue: Promise<void> = Promise.resolve();
+    private refreshing = 0;
+    private discards = 0; // Lets a pre-sign in flight notice a discard
+
+    constructor(
+        private readonly wallet: ethers.Wallet,
+        private readonly nonceManager: NonceManager,
+        private readonly build: (nonce: number) => Promise<UnsignedTransaction>,
+        private readonly logger: Logger = console
+    ) {}
+
+    /**
+     * Signs the next transaction in the background. Refreshes run one at a
+     * time; failures are logged and leave the block handler to sign inline.
+     */
+    public refresh(): Promise<void> {
+        this.refreshing++;
+        this.queue = this.queue
+            .then(() => this.presign())
+            .catch((error) =>
+                this.logger.warn(
+                    '⚠️ Failed to pre-sign the next transaction:',
+                    error
+                )
+            )
+            .finally(() => this.refreshing--);
+        return this.queue;
+    }
+
+    /**
+     * Hands out the prepared transaction. It is re-signed with the same nonce
+     * if its fees came from older gas data, and a transaction is signed
+     * inline if none is prepared.
+     */
+    public async take(gasDataUpdatedAt: number): Promise<SignedTransaction> {
+        // A pre-sign in flight finishes sooner than starting over
+        if (!this.next && this.refreshing > 0) {
+            await this.queue;
+        }
+
+        const prepared = this.next;
+        this.next = null;
+        if (prepared && prepared.gasDataUpdatedAt === gasDataUpdatedAt) {
+            return prepared;
+        }
+
+        const nonce =
+            prepared?.nonce ?? (await this.nonceManager.reserve()).nonce;
+        try {
+            return await this.sign(nonce, false);
+        } catch (error) {
+            this.nonceManager.release(nonce);
+            throw error;
+        }
+    }
+
+    /**
+     * Drops the prepared transaction and gives its nonce back, e.g. once no
+     * more transactions will be sent.
+     */
+    public discard(): void {
+        this.discards++;
+        if (!this.next) return;
+
+        this.nonceManager.release(this.next.nonce);
+        this.next = null;
+    }
+
+    private async presign(): Promise<void> {
+        const previous = this.next;
+        const discards = this.discards;
+        const nonce =
+            previous?.nonce ?? (await this.nonceManager.reserve()).nonce;
+
+        let signed: SignedTransaction;
+        try {
+            signed = await this.sign(nonce, true);
+        } catch (error) {
+            if (!previous) this.nonceManager.release(nonce);
+            throw error;
+        }
+
+        // Discarded while signing: a nonce reserved here has no other owner
+        if (this.discards !== discards) {
+            if (!previous) this.nonceManager.release(nonce);
+            return;
+        }
+        // Taken while signing: the nonce went with it
+        if (this.next !== previous) return;
+        this.next = signed;
+    }
+
+    private async sign(
+        nonce: number,
+        presigned: boolean
+    ): Promise<SignedTransaction> {
+        const { tx, request, fees, gasDataUpdatedAt, estimateError } =
+            await this.build(nonce);
+        const signed = await TransactionPresigner.sign(this.wallet, tx);
+        return {
+            ...signed,
+            nonce,
+            request,
+            fees,
+            gasDataUpdatedAt,
+            presigned,
+            estimateError,
+        };
+    }
+
+    /**
+     * Populates and signs a transaction locally, timing the work.
+     */
+    public static async sign(
+        wallet: ethers.Wallet,
+        tx: ethers.TransactionRequest
+    ): Promise<
+        Pick<SignedTransaction, 'signedTx' | 'hash' | 'signedAt' | 'signingMs'>
+    > {
+        const start = Date.now();
+        const signedTx = await wallet.signTransaction(
+            await wallet.populateTransaction(tx)
+        );
+        const signedAt = Date.now();
+        return {
+            signedTx,
+            hash: ethers.keccak256(signedTx),
+            signedAt,
+            signingMs: signedAt - start,
+        };
+    }
+}
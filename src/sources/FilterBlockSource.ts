@@ -0,0 +1,125 @@
+import { ethers } from 'ethers';
+import { BlockData, BlockHandler, BlockSource, Logger } from '../types';
+
+/**
+ * Watches for new blocks through an `eth_newBlockFilter` installed on the
+ * HTTP RPC node, fetching each reported block hash as it arrives.
+ */
+export class FilterBlockSource implements BlockSource {
+    public readonly name = 'eth_newBlockFilter';
+    public reconnectCount = 0;
+    public readonly backfilledBlocks = 0; // Filter changes never skip blocks
+    private filterId: string | null = null;
+    private isPolling = false;
+    private failingSince: number | null = null;
+    private accumulatedDowntimeMs = 0;
+
+    private readonly POLL_INTERVAL = 100; // Poll filter changes every 100ms
+
+    constructor(
+        private readonly provider: ethers.JsonRpcProvider,
+        private readonly logger: Logger = console
+    ) {}
+
+    // Time between the first failed poll and the next successful one
+    public get downtimeMs(): number {
+        return (
+            this.accumulatedDowntimeMs +
+            (this.failingSince !== null ? Date.now() - this.failingSince : 0)
+        );
+    }
+
+    public async start(onBlock: BlockHandler): Promise<void> {
+        this.filterId = await this.provider.send('eth_newBlockFilter', []);
+        this.logger.log(`📡 Installed block filter ${this.filterId}`);
+
+        this.isPolling = true;
+        this.startFilterPolling(onBlock);
+    }
+
+    private startFilterPolling(onBlock: BlockHandler): void {
+        const pollFilter = async () => {
+            if (!this.isPolling || !this.filterId) return;
+
+            try {
+                const hashes: string[] = await this.provider.send(
+                    'eth_getFilterChanges',
+                    [this.filterId]
+                );
+                this.markHealthy();
+
+                for (const hash of hashes) {
+                    if (!this.isPolling) return;
+                    await this.processBlock(hash, onBlock);
+                }
+            } catch (error) {
+                this.markFailing();
+                this.logger.error('❌ Error polling block filter:', error);
+
+                // Filters expire on most nodes after a few minutes of inactivity
+                await this.reinstallFilter();
+            }
+
+            setTimeout(pollFilter, this.POLL_INTERVAL);
+        };
+
+        pollFilter();
+    }
+
+    private async processBlock(
+        hash: string,
+        onBlock: BlockHandler
+    ): Promise<void> {
+        try {
+            const blockData: BlockData | null = await this.provider.send(
+                'eth_getBlockByHash',
+                [hash, false]
+            );
+            if (!blockData) {
+                this.logger.warn(`⚠️  Block ${hash} not found, skipping...`);
+                return;
+            }
+
+            await onBlock(blockData);
+        } catch (error) {
+            this.logger.error(`❌ Error processing block ${hash}:`, error);
+        }
+    }
+
+    private async reinstallFilter(): Promise<void> {
+        try {
+            this.filterId = await this.provider.send('eth_newBlockFilter', []);
+            this.reconnectCount++;
+            this.logger.log(`📡 Reinstalled block filter ${this.filterId}`);
+        } catch (error) {
+            this.logger.error('❌ Error reinstalling block filter:', error);
+        }
+    }
+
+    private markFailing(): void {
+        this.failingSince ??= Date.now();
+    }
+
+    private markHealthy(): void {
+        if (this.failingSince !== null) {
+            this.accumulatedDowntimeMs += Date.now() - this.failingSince;
+            this.failingSince = null;
+        }
+    }
+
+    public stop(): void {
+        this.isPolling = false;
+
+        if (this.filterId) {
+            const filterId = this.filterId;
+            this.filterId = null;
+            this.provider
+                .send('eth_uninstallFilter', [filterId])
+                .catch(() => undefined);
+        }
+    }
+
+    public isActive(): boolean {
+        return this.isPolling;
+    }
+}
@@ -0,0 +1,133 @@
+import { ethers } from 'ethers';
+import { BlockData, BlockHandler, BlockSource, Logger } from '../types';
+
+export class HttpPollingBlockSource implements BlockSource {
+    public readonly name = 'HTTP polling';
+    public readonly reconnectCount = 0;
+    public readonly backfilledBlocks = 0; // Polling never skips blocks
+    private isPolling = false;
+    private lastProcessedBlock = 0; // Track the last block we processed
+    private failingSince: number | null = null;
+    private accumulatedDowntimeMs = 0;
+
+    // Polling configuration
+    private readonly POLL_INTERVAL = 20; // Poll every 20ms
+    private readonly BLOCK_CONFIRMATION_DELAY = 0; // Wait 0 block before processing
+
+    constructor(
+        private readonly provider: ethers.JsonRpcProvider,
+        private readonly logger: Logger = console
+    ) {}
+
+    // Time between the first failed poll and the next successful one
+    public get downtimeMs(): number {
+        return (
+            this.accumulatedDowntimeMs +
+            (this.failingSince !== null ? Date.now() - this.failingSince : 0)
+        );
+    }
+
+    public async start(onBlock: BlockHandler): Promise<void> {
+        // Get current block number to start monitoring from
+        this.lastProcessedBlock = await this.provider.getBlockNumber();
+        this.logger.log(
+            `📍 Starting block monitoring from block #${this.lastProcessedBlock}`
+        );
+
+        // Start polling for new blocks
+        this.isPolling = true;
+        this.startBlockPolling(onBlock);
+    }
+
+    private startBlockPolling(onBlock: BlockHandler): void {
+        const pollBlocks = async () => {
+            if (!this.isPolling) return;
+
+            try {
+                const currentBlock = await this.provider.getBlockNumber();
+                this.markHealthy();
+
+                // Check if we have new blocks to process
+                if (
+                    currentBlock >
+                    this.lastProcessedBlock + this.BLOCK_CONFIRMATION_DELAY
+                ) {
+                    // Process blocks in sequence
+                    for (
+                        let blockNumber = this.lastProcessedBlock + 1;
+                        blockNumber <=
+                        currentBlock - this.BLOCK_CONFIRMATION_DELAY;
+                        blockNumber++
+                    ) {
+                        if (!this.isPolling) return;
+                        await this.processBlock(blockNumber, onBlock);
+                        this.lastProcessedBlock = blockNumber;
+                    }
+                }
+            } catch (error) {
+                this.markFailing();
+                this.logger.error('❌ Error polling for blocks:', error);
+            }
+
+            // Schedule next poll
+            setTimeout(pollBlocks, this.POLL_INTERVAL);
+        };
+
+        // Start polling
+        pollBlocks();
+    }
+
+    private async processBlock(
+        blockNumber: number,
+        onBlock: BlockHandler
+    ): Promise<void> {
+        try {
+            // Get block data
+            const block = await this.provider.getBlock(blockNumber);
+            if (!block) {
+                this.logger.warn(
+                    `⚠️  Block #${blockNumber} not found, skipping...`
+                );
+                return;
+            }
+
+            // Create BlockData object for compatibility with newHeads payloads
+            const blockData: BlockData = {
+                number: block.number.toString(16),
+                hash: block.hash || '',
+                parentHash: block.parentHash,
+                timestamp: block.timestamp.toString(16),
+                gasUsed: block.gasUsed.toString(16),
+                gasLimit: block.gasLimit.toString(16),
+                baseFeePerGas: block.baseFeePerGas?.toString(16),
+                transactions: [...block.transactions],
+            };
+
+            await onBlock(blockData);
+        } catch (error) {
+            this.logger.error(
+                `❌ Error processing block #${blockNumber}:`,
+                error
+            );
+        }
+    }
+
+    private markFailing(): void {
+        this.failingSince ??= Date.now();
+    }
+
+    private markHealthy(): void {
+        if (this.failingSince !== null) {
+            this.accumulatedDowntimeMs += Date.now() - this.failingSince;
+            this.failingSince = null;
+        }
+    }
+
+    public stop(): void {
+        this.isPolling = false;
+    }
+
+    public isActive(): boolean {
+        return this.isPolling;
+    }
+}
@@ -0,0 +1,41 @@
+import { SubscriptionSocket } from './SubscriptionSocket';
+import { MockNode } from '../testing/MockNode';
+import { waitFor } from '../testing/helpers';
+import { SILENT_LOGGER } from '../utils/logger';
+
+describe('SubscriptionSocket', () => {
+    let node: MockNode;
+    let socket: SubscriptionSocket<unknown>;
+
+    beforeEach(async () => {
+        node = new MockNode();
+        await node.start();
+        socket = new SubscriptionSocket(
+            node.wsUrl,
+            ['newHeads'],
+            'new block notifications',
+            SILENT_LOGGER
+        );
+    });
+
+    afterEach(async () => {
+        socket.stop();
+        await node.stop();
+    });
+
+    it('cancels a scheduled reconnect when stopped', async () => {
+        socket.start({ onResult: () => undefined });
+        await waitFor(() => socket.isActive(), 5000, 'subscription');
+
+        node.dropConnections();
+        await waitFor(() => !socket.isActive(), 5000, 'disconnect');
+        socket.stop();
+        socket.start({ onResult: () => undefined });
+        await waitFor(() => socket.isActive(), 5000, 'resubscription');
+
+        // A leftover reconnect would open a second subscription
+        await new Promise((resolve) => setTimeout(resolve, 1500));
+        expect(node.subscriptionCount).toBe(1);
+        expect(socket.reconnectCount).toBe(0);
+    });
+});
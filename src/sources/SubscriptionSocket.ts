@@ -0,0 +1,240 @@
+import WebSocket from 'ws';
+import { JsonRpcResponse, Logger, WebSocketMessage } from '../types';
+
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const HEARTBEAT_INTERVAL_MS = 15000; // A ping without a pong by the next tick marks the socket dead
+const SUBSCRIBE_TIMEOUT_MS = 10000;
+
+export interface SubscriptionHandlers<T> {
+    onResult: (result: T) => void;
+    onSubscribed?: (resubscribed: boolean) => void; // After the node confirms the subscription
+}
+
+/**
+ * A WebSocket holding one `eth_subscribe` subscription. Dead connections are
+ * detected with ping/pong heartbeats and replaced using exponential backoff
+ * with jitter; notifications are only delivered once the node has confirmed
+ * the subscription and returned its ID. Used for `newHeads` by the WebSocket
+ * block source and `newPendingTransactions` by the mempool observer.
+ */
+export class SubscriptionSocket<T> {
+    public reconnectCount = 0;
+    private ws: WebSocket | null = null;
+    private stopped = false;
+    private handlers: SubscriptionHandlers<T> | null = null;
+    private subscriptionId: string | null = null;
+    private requestId = 0;
+    private pendingSubscribeId: number | null = null;
+    private failedAttempts = 0; // Consecutive connections that never subscribed
+    private everSubscribed = false;
+    private alive = false;
+    private heartbeatTimer: NodeJS.Timeout | null = null;
+    private subscribeTimer: NodeJS.Timeout | null = null;
+    private reconnectTimer: NodeJS.Timeout | null = null;
+    private disconnectedAt: number | null = null;
+    private totalDowntimeMs = 0;
+
+    constructor(
+        private readonly url: string,
+        private readonly params: unknown[], // eth_subscribe params, e.g. ['newHeads']
+        private readonly description: string, // For logs, e.g. 'new block notifications'
+        private readonly logger: Logger = console
+    ) {}
+
+    /**
+     * Time spent without a confirmed subscription after the first one,
+     * including the current outage.
+     */
+    public get downtimeMs(): number {
+        return (
+            this.totalDowntimeMs +
+            (this.disconnectedAt !== null
+                ? Date.now() - this.disconnectedAt
+                : 0)
+        );
+    }
+
+    public start(handlers: SubscriptionHandlers<T>): void {
+        this.handlers = handlers;
+        this.stopped = false;
+        this.connectWebSocket();
+    }
+
+    private connectWebSocket(): void {
+        this.logger.log(`🔌 Connecting to WebSocket: ${this.url}`);
+
+        const ws = new WebSocket(this.url);
+        this.ws = ws;
+
+        ws.on('open', () => {
+            this.logger.log(`✅ WebSocket connected (${this.description})`);
+            this.startHeartbeat(ws);
+            this.subscribe(ws);
+        });
+
+        ws.on('pong', () => {
+            this.alive = true;
+        });
+
+        ws.on('message', (data: WebSocket.Data) => {
+            try {
+                const message: WebSocketMessage<T> | JsonRpcResponse =
+                    JSON.parse(data.toString());
+                if ('id' in message && message.id === this.pendingSubscribeId) {
+                    this.handleSubscribeResponse(ws, message);
+                } else if (
+                    'method' in message &&
+                    message.method === 'eth_subscription' &&
+                    message.params?.subscription === this.subscriptionId &&
+                    message.params.result &&
+                    this.handlers
+                ) {
+                    this.handlers.onResult(message.params.result);
+                }
+            } catch (error) {
+                this.logger.error('❌ Error parsing WebSocket message:', error);
+            }
+        });
+
+        ws.on('error', (error) => {
+            this.logger.error('❌ WebSocket error:', error);
+        });
+
+        ws.on('close', () => {
+            this.clearTimers();
+            this.subscriptionId = null;
+            this.pendingSubscribeId = null;
+            if (this.stopped || ws !== this.ws) return;
+
+            if (this.everSubscribed && this.disconnectedAt === null) {
+                this.disconnectedAt = Date.now();
+            }
+            this.scheduleReconnect();
+        });
+    }
+
+    private scheduleReconnect(): void {
+        const delay = this.backoffDelay(this.failedAttempts++);
+        this.logger.log(
+            `🔌 WebSocket disconnected (${
+                this.description
+            }), reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${
+                this.failedAttempts
+            })...`
+        );
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            if (this.stopped) return;
+            this.reconnectCount++;
+            this.connectWebSocket();
+        }, delay);
+    }
+
+    // Exponential backoff with equal jitter: half fixed, half random
+    private backoffDelay(attempt: number): number {
+        const ceiling = Math.min(
+            MAX_BACKOFF_MS,
+            INITIAL_BACKOFF_MS * 2 ** attempt
+        );
+        return ceiling / 2 + Math.random() * (ceiling / 2);
+    }
+
+    private startHeartbeat(ws: WebSocket): void {
+        this.alive = true;
+        this.heartbeatTimer = setInterval(() => {
+            if (!this.alive) {
+                this.logger.warn(
+                    `⚠️ No WebSocket pong within ${
+                        HEARTBEAT_INTERVAL_MS / 1000
+                    }s (${this.description}), dropping connection`
+                );
+                ws.terminate();
+                return;
+            }
+
+            this.alive = false;
+            ws.ping();
+        }, HEARTBEAT_INTERVAL_MS);
+    }
+
+    private subscribe(ws: WebSocket): void {
+        const id = ++this.requestId;
+        this.pendingSubscribeId = id;
+
+        const subscriptionMessage = {
+            jsonrpc: '2.0',
+            id,
+            method: 'eth_subscribe',
+            params: this.params,
+        };
+
+        ws.send(JSON.stringify(subscriptionMessage));
+        this.subscribeTimer = setTimeout(() => {
+            this.logger.warn(
+                `⚠️ No eth_subscribe response within ${
+                    SUBSCRIBE_TIMEOUT_MS / 1000
+                }s (${this.description}), dropping connection`
+            );
+            ws.terminate();
+        }, SUBSCRIBE_TIMEOUT_MS);
+    }
+
+    private handleSubscribeResponse(
+        ws: WebSocket,
+        response: JsonRpcResponse
+    ): void {
+        if (this.subscribeTimer) clearTimeout(this.subscribeTimer);
+        this.subscribeTimer = null;
+        this.pendingSubscribeId = null;
+
+        if (response.error || typeof response.result !== 'string') {
+            this.logger.error(
+                `❌ Subscription to ${this.description} rejected: ${
+                    response.error?.message ?? 'no subscription ID returned'
+                }`
+            );
+            ws.close();
+            return;
+        }
+
+        this.subscriptionId = response.result;
+        this.failedAttempts = 0;
+        if (this.disconnectedAt !== null) {
+            this.totalDowntimeMs += Date.now() - this.disconnectedAt;
+            this.disconnectedAt = null;
+        }
+        this.logger.log(
+            `📡 Subscribed to ${this.description} (subscription ${this.subscriptionId})`
+        );
+
+        const resubscribed = this.everSubscribed;
+        this.everSubscribed = true;
+        this.handlers?.onSubscribed?.(resubscribed);
+    }
+
+    private clearTimers(): void {
+        if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+        if (this.subscribeTimer) clearTimeout(this.subscribeTimer);
+        if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+        this.heartbeatTimer = null;
+        this.subscribeTimer = null;
+        this.reconnectTimer = null;
+    }
+
+    public stop(): void {
+        this.stopped = true;
+        this.clearTimers();
+
+        if (this.ws) {
+            this.ws.close();
+            this.ws = null;
+        }
+
+        this.subscriptionId = null;
+    }
+
+    public isActive(): boolean {
+        return this.subscriptionId !== null;
+    }
+}
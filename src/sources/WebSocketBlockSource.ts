@@ -0,0 +1,130 @@
+import { ethers } from 'ethers';
+import { BlockData, BlockHandler, BlockSource, Logger } from '../types';
+import { SubscriptionSocket } from './SubscriptionSocket';
+
+const MAX_BACKFILL_BLOCKS = 128; // Longer gaps only backfill the most recent blocks
+const RECENT_HASHES = 64; // Remembered to skip blocks delivered by both backfill and newHeads
+
+/**
+ * Receives blocks from a `newHeads` subscription. After a reconnect, blocks
+ * produced while disconnected are fetched over HTTP and delivered in order
+ * before any heads that arrived in the meantime.
+ */
+export class WebSocketBlockSource implements BlockSource {
+    public readonly name = 'WebSocket';
+    public backfilledBlocks = 0;
+    private socket: SubscriptionSocket<BlockData>;
+    private onBlock: BlockHandler | null = null;
+    private lastBlockNumber: number | null = null;
+    private recentHashes: string[] = [];
+    private backfilling = false;
+    private buffered: BlockData[] = [];
+
+    constructor(
+        websocketUrl: string,
+        private readonly provider: ethers.JsonRpcProvider,
+        private readonly logger: Logger = console
+    ) {
+        this.socket = new SubscriptionSocket<BlockData>(
+            websocketUrl,
+            ['newHeads'],
+            'new block notifications',
+            logger
+        );
+    }
+
+    public get reconnectCount(): number {
+        return this.socket.reconnectCount;
+    }
+
+    public get downtimeMs(): number {
+        return this.socket.downtimeMs;
+    }
+
+    public async start(onBlock: BlockHandler): Promise<void> {
+        this.onBlock = onBlock;
+        this.socket.start({
+            onResult: (blockData) => {
+                if (this.backfilling) {
+                    this.buffered.push(blockData);
+                    return;
+                }
+                this.deliver(blockData).catch((error) =>
+                    this.logger.error('❌ Error handling block:', error)
+                );
+            },
+            onSubscribed: (resubscribed) => {
+                if (resubscribed) {
+                    this.backfill().catch((error) =>
+                        this.logger.error('❌ Error backfilling blocks:', error)
+                    );
+                }
+            },
+        });
+    }
+
+    private async deliver(blockData: BlockData): Promise<void> {
+        if (!this.onBlock || this.recentHashes.includes(blockData.hash)) {
+            return;
+        }
+
+        this.recentHashes.push(blockData.hash);
+        if (this.recentHashes.length > RECENT_HASHES) {
+            this.recentHashes.shift();
+        }
+        this.lastBlockNumber = Math.max(
+            this.lastBlockNumber ?? 0,
+            parseInt(blockData.number, 16)
+        );
+
+        await this.onBlock(blockData);
+    }
+
+    private async backfill(): Promise<void> {
+        if (this.lastBlockNumber === null) return;
+
+        this.backfilling = true;
+        try {
+            const head = await this.provider.getBlockNumber();
+            let from = this.lastBlockNumber + 1;
+            if (head - from + 1 > MAX_BACKFILL_BLOCKS) {
+                this.logger.warn(
+                    `⚠️ Missed ${
+                        head - from + 1
+                    } blocks while disconnected, backfilling only the last ${MAX_BACKFILL_BLOCKS}`
+                );
+                from = head - MAX_BACKFILL_BLOCKS + 1;
+            }
+
+            if (from <= head) {
+                this.logger.log(
+                    `🔁 Backfilling blocks #${from}-#${head} missed while disconnected`
+                );
+            }
+            for (let number = from; number <= head; number++) {
+                const blockData: BlockData | null = await this.provider.send(
+                    'eth_getBlockByNumber',
+                    [ethers.toQuantity(number), false]
+                );
+                if (!blockData) continue;
+
+                this.backfilledBlocks++;
+                await this.deliver({ ...blockData, backfilled: true });
+            }
+        } finally {
+            // Heads received during the backfill follow in arrival order
+            while (this.buffered.length > 0) {
+                await this.deliver(this.buffered.shift()!);
+            }
+            this.backfilling = false;
+        }
+    }
+
+    public stop(): void {
+        this.socket.stop();
+    }
+
+    public isActive(): boolean {
+        return this.socket.isActive();
+    }
+}
@@ -0,0 +1,32 @@
+import { ethers } from 'ethers';
+import { BlockReactionConfig, BlockSource, Logger } from '../types';
+import { WebSocketBlockSource } from './WebSocketBlockSource';
+import { HttpPollingBlockSource } from './HttpPollingBlockSource';
+import { FilterBlockSource } from './FilterBlockSource';
+import { SubscriptionSocket } from './SubscriptionSocket';
+
+export {
+    WebSocketBlockSource,
+    HttpPollingBlockSource,
+    FilterBlockSource,
+    SubscriptionSocket,
+};
+
+export function createBlockSource(
+    config: BlockReactionConfig,
+    provider: ethers.JsonRpcProvider,
+    logger: Logger = console
+): BlockSource {
+    switch (config.blockSource) {
+        case 'websocket':
+            return new WebSocketBlockSource(
+                config.websocketUrl,
+                provider,
+                logger
+            );
+        case 'http':
+            return new HttpPollingBlockSource(provider, logger);
+        case 'filter':
+            return new FilterBlockSource(provider, logger);
+    }
+}
@@ -0,0 +1,826 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { ethers } from 'ethers';
+
+const DEFAULT_CHAIN_ID = 31337;
+const DEFAULT_GAS_LIMIT = BigInt(30000000);
+const DEFAULT_BASE_FEE = ethers.parseUnits('1', 'gwei');
+const DEFAULT_PRIORITY_FEE = ethers.parseUnits('1', 'gwei');
+
+export interface MockNodeOptions {
+    chainId?: number;
+    inclusionDelayBlocks?: number; // Blocks a transaction waits before it can be mined, 0 = next block
+    blockGasLimit?: bigint;
+    baseFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint; // Returned by eth_maxPriorityFeePerGas
+}
+
+export interface MineOptions {
+    extraGasUsed?: bigint; // Gas used by other (simulated) traffic, to make blocks look full
+}
+
+export interface MockTransaction {
+    hash: string;
+    tx: ethers.Transaction;
+    from: string;
+    receivedAt: number;
+    receivedBlock: number; // Head when the transaction arrived
+    revert: boolean;
+    targetBlock?: number; // Bundles: the only block the transaction may land in
+    maxBlock?: number; // Private transactions: the last block it may land in
+}
+
+// How a relay hands a transaction to the node; public sends use neither
+interface PrivateSubmission {
+    targetBlock?: number;
+    maxBlock?: number;
+}
+
+interface MockBlock {
+    number: number;
+    hash: string;
+    parentHash: string;
+    timestamp: number;
+    gasLimit: bigint;
+    gasUsed: bigint;
+    baseFeePerGas: bigint;
+    transactions: MockTransaction[];
+}
+
+interface RpcRequest {
+    jsonrpc: string;
+    id: number | string | null;
+    method: string;
+    params?: unknown[];
+}
+
+class RpcError extends Error {
+    constructor(public readonly code: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * An in-process Ethereum node for tests. Serves HTTP JSON-RPC and WebSocket
+ * `eth_subscribe` (newHeads, newPendingTransactions) on one port, accepts
+ * signed transactions into a mempool and mines blocks on demand or on an
+ * interval. Inclusion delay, reverts, reorgs and dropped connections can be
+ * scripted from the test.
+ */
+export class MockNode {
+    public readonly chainId: number;
+    public inclusionDelayBlocks: number;
+    public baseFeePerGas: bigint;
+    public revertCalls = false; // eth_call and eth_estimateGas revert
+    private readonly blockGasLimit: bigint;
+    private readonly maxPriorityFeePerGas: bigint;
+    private chain: MockBlock[] = [];
+    private mempool: MockTransaction[] = [];
+    private received = new Map<string, MockTransaction>();
+    private revertCount = 0;
+    private reorgSalt = 0;
+    private filters = new Map<string, string[]>(); // Filter ID -> block hashes not yet polled
+    private subscriptions = new Map<
+        WebSocket,
+        Map<string, 'newHeads' | 'newPendingTransactions'>
+    >();
+    private nextId = 1;
+    private server: http.Server | null = null;
+    private wss: WebSocket.Server | null = null;
+    private miningTimer: NodeJS.Timeout | null = null;
+    private port = 0;
+
+    constructor(options: MockNodeOptions = {}) {
+        this.chainId = options.chainId ?? DEFAULT_CHAIN_ID;
+        this.inclusionDelayBlocks = options.inclusionDelayBlocks ?? 0;
+        this.blockGasLimit = options.blockGasLimit ?? DEFAULT_GAS_LIMIT;
+        this.baseFeePerGas = options.baseFeePerGas ?? DEFAULT_BASE_FEE;
+        this.maxPriorityFeePerGas =
+            options.maxPriorityFeePerGas ?? DEFAULT_PRIORITY_FEE;
+
+        this.chain.push(this.createBlock(0, ethers.ZeroHash, [], BigInt(0)));
+    }
+
+    public get httpUrl(): string {
+        return `http://127.0.0.1:${this.port}`;
+    }
+
+    public get wsUrl(): string {
+        return `ws://127.0.0.1:${this.port}`;
+    }
+
+    public get head(): number {
+        return this.chain.length - 1;
+    }
+
+    /**
+     * Every transaction the node accepted, including replaced ones.
+     */
+    public get transactions(): MockTransaction[] {
+        return [...this.received.values()];
+    }
+
+    public get pendingCount(): number {
+        return this.mempool.length;
+    }
+
+    /**
+     * Active `eth_subscribe` subscriptions across all WebSocket clients.
+     */
+    public get subscriptionCount(): number {
+        let count = 0;
+        for (const subscriptions of this.subscriptions.values()) {
+            count += subscriptions.size;
+        }
+        return count;
+    }
+
+    /**
+     * Listens on a free local port; the URLs are valid once this resolves.
+     */
+    public start(port = 0): Promise<void> {
+        this.server = http.createServer((req, res) =>
+            this.handleHttp(req, res)
+        );
+        this.wss = new WebSocket.Server({ server: this.server });
+        this.wss.on('connection', (ws) => this.handleConnection(ws));
+
+        return new Promise((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(port, '127.0.0.1', () => {
+                this.port = (this.server!.address() as AddressInfo).port;
+                resolve();
+            });
+        });
+    }
+
+    public async stop(): Promise<void> {
+        this.stopMining();
+        this.dropConnections();
+
+        const server = this.server;
+        this.server = null;
+        this.wss?.close();
+        this.wss = null;
+        if (!server) return;
+
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    public startMining(intervalMs: number): void {
+        this.stopMining();
+        this.miningTimer = setInterval(() => this.mineBlock(), intervalMs);
+    }
+
+    public stopMining(): void {
+        if (this.miningTimer) clearInterval(this.miningTimer);
+        this.miningTimer = null;
+    }
+
+    /**
+     * Mines one block from the mempool and announces it to subscribers and
+     * block filters.
+     */
+    public mineBlock(options: MineOptions = {}): string {
+        const parent = this.chain[this.head];
+        const number = parent.number + 1;
+        const included = this.selectTransactions(number, options.extraGasUsed);
+
+        const block = this.createBlock(
+            number,
+            parent.hash,
+            included,
+            options.extraGasUsed ?? BigInt(0)
+        );
+        this.chain.push(block);
+        this.mempool = this.mempool.filter((t) => !included.includes(t));
+        this.announce(block);
+
+        return block.hash;
+    }
+
+    public mineBlocks(count: number, options: MineOptions = {}): void {
+        for (let i = 0; i < count; i++) {
+            this.mineBlock(options);
+        }
+    }
+
+    /**
+     * Replaces the last `depth` blocks with `depth + 1` new ones. Transactions
+     * from the orphaned blocks return to the mempool and are mined again in
+     * the replacement chain, unless `dropTransactions` is set.
+     */
+    public reorg(depth: number, dropTransactions = false): void {
+        if (depth < 1 || depth > this.head) {
+            throw new Error(
+                `Cannot reorg ${depth} blocks at head ${this.head}`
+            );
+        }
+
+        const orphaned = this.chain.splice(this.chain.length - depth, depth);
+        if (!dropTransactions) {
+            const transactions = orphaned.flatMap((b) => b.transactions);
+            transactions.forEach((t) => (t.receivedBlock = 0));
+            this.mempool.unshift(...transactions);
+        }
+
+        this.reorgSalt++;
+        this.mineBlocks(depth + 1);
+    }
+
+    /**
+     * Makes the next `count` transactions the node accepts revert when mined.
+     */
+    public revertNext(count = 1): void {
+        this.revertCount += count;
+    }
+
+    /**
+     * Terminates every WebSocket client, as if the connection dropped.
+     */
+    public dropConnections(): void {
+        for (const ws of this.subscriptions.keys()) {
+            ws.terminate();
+        }
+        this.subscriptions.clear();
+    }
+
+    /**
+     * Accepts a transaction from a private relay: it is never announced to
+     * `newPendingTransactions` and expires after `maxBlock`.
+     */
+    public submitPrivate(raw: string, maxBlock: number): string {
+        return this.acceptTransaction(raw, { maxBlock });
+    }
+
+    /**
+     * Accepts a bundle that may only land in `blockNumber`. Re-sending the
+     * same transactions for a later block retargets them, as relays expect
+     * a missed bundle to be re-submitted.
+     */
+    public submitBundle(raws: string[], blockNumber: number): void {
+        for (const raw of raws) {
+            const hash = ethers.keccak256(raw);
+            const known = this.received.get(hash);
+            if (!known) {
+                this.acceptTransaction(raw, { targetBlock: blockNumber });
+            } else if (this.mempool.includes(known)) {
+                known.targetBlock = blockNumber;
+            }
+        }
+    }
+
+    public getReceipt(hash: string): Record<string, unknown> | null {
+        for (const block of this.chain) {
+            const index = block.transactions.findIndex((t) => t.hash === hash);
+            if (index !== -1) return this.formatReceipt(block, index);
+        }
+        return null;
+    }
+
+    private selectTransactions(
+        number: number,
+        extraGasUsed = BigInt(0)
+    ): MockTransaction[] {
+        const included: MockTransaction[] = [];
+        const nonces = new Map<string, number>();
+        let gasUsed = extraGasUsed;
+
+        // Lowest nonces first; a sender's later nonces wait for earlier ones
+        const candidates = [...this.mempool].sort(
+            (a, b) => a.tx.nonce - b.tx.nonce
+        );
+        for (const t of candidates) {
+            if (number - t.receivedBlock <= this.inclusionDelayBlocks) continue;
+            if (t.targetBlock !== undefined && t.targetBlock !== number) {
+                continue;
+            }
+            if (t.maxBlock !== undefined && number > t.maxBlock) continue;
+            if (MockNode.maxFee(t.tx) < this.baseFeePerGas) continue;
+
+            const next = nonces.get(t.from) ?? this.minedNonce(t.from);
+            if (t.tx.nonce !== next) continue;
+
+            const gas = MockNode.intrinsicGas(t.tx);
+            if (gasUsed + gas > this.blockGasLimit) continue;
+
+            included.push(t);
+            nonces.set(t.from, next + 1);
+            gasUsed += gas;
+        }
+
+        return included;
+    }
+
+    private createBlock(
+        number: number,
+        parentHash: string,
+        transactions: MockTransaction[],
+        extraGasUsed: bigint
+    ): MockBlock {
+        // Kept in step with the wall clock: blocks mined within the same
+        // second share a timestamp rather than running ahead of it
+        const parent = this.chain[number - 1];
+        const timestamp = Math.max(
+            Math.floor(Date.now() / 1000),
+            parent ? parent.timestamp : 0
+        );
+        const gasUsed = transactions.reduce(
+            (sum, t) => sum + MockNode.intrinsicGas(t.tx),
+            extraGasUsed
+        );
+
+        return {
+            number,
+            hash: ethers.solidityPackedKeccak256(
+                ['uint256', 'bytes32', 'uint256', 'uint256', 'bytes32[]'],
+                [
+                    number,
+                    parentHash,
+                    timestamp,
+                    this.reorgSalt,
+                    transactions.map((t) => t.hash),
+                ]
+            ),
+            parentHash,
+            timestamp,
+            gasLimit: this.blockGasLimit,
+            gasUsed:
+                gasUsed > this.blockGasLimit ? this.blockGasLimit : gasUsed,
+            baseFeePerGas: this.baseFeePerGas,
+            transactions,
+        };
+    }
+
+    private announce(block: MockBlock): void {
+        for (const hashes of this.filters.values()) {
+            hashes.push(block.hash);
+        }
+        this.notify('newHeads', () => this.formatHeader(block));
+    }
+
+    private notify(
+        kind: 'newHeads' | 'newPendingTransactions',
+        result: () => unknown
+    ): void {
+        for (const [ws, subscriptions] of this.subscriptions) {
+            for (const [subscription, subscribedKind] of subscriptions) {
+                if (subscribedKind !== kind) continue;
+                ws.send(
+                    JSON.stringify({
+                        jsonrpc: '2.0',
+                        method: 'eth_subscription',
+                        params: { subscription, result: result() },
+                    })
+                );
+            }
+        }
+    }
+
+    private handleHttp(
+        req: http.IncomingMessage,
+        res: http.ServerResponse
+    ): void {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            let payload: RpcRequest | RpcRequest[];
+            try {
+                payload = JSON.parse(body);
+            } catch {
+                res.writeHead(400);
+                res.end();
+                return;
+            }
+
+            const response = Array.isArray(payload)
+                ? payload.map((request) => this.handleRequest(request))
+                : this.handleRequest(payload);
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(response));
+        });
+    }
+
+    private handleConnection(ws: WebSocket): void {
+        this.subscriptions.set(ws, new Map());
+        ws.on('close', () => this.subscriptions.delete(ws));
+        ws.on('message', (data: WebSocket.Data) => {
+            let request: RpcRequest;
+            try {
+                request = JSON.parse(data.toString());
+            } catch {
+                return;
+            }
+
+            if (request.method === 'eth_subscribe') {
+                ws.send(JSON.stringify(this.subscribe(ws, request)));
+            } else if (request.method === 'eth_unsubscribe') {
+                const removed = this.subscriptions
+                    .get(ws)
+                    ?.delete(String(request.params?.[0]));
+                ws.send(
+                    JSON.stringify({
+                        jsonrpc: '2.0',
+                        id: request.id,
+                        result: !!removed,
+                    })
+                );
+            } else {
+                ws.send(JSON.stringify(this.handleRequest(request)));
+            }
+        });
+    }
+
+    private subscribe(ws: WebSocket, request: RpcRequest): unknown {
+        const kind = request.params?.[0];
+        if (kind !== 'newHeads' && kind !== 'newPendingTransactions') {
+            return {
+                jsonrpc: '2.0',
+                id: request.id,
+                error: {
+                    code: -32602,
+                    message: `unsupported subscription: ${kind}`,
+                },
+            };
+        }
+
+        const subscription = ethers.toQuantity(this.nextId++);
+        this.subscriptions.get(ws)?.set(subscription, kind);
+        return { jsonrpc: '2.0', id: request.id, result: subscription };
+    }
+
+    private handleRequest(request: RpcRequest): unknown {
+        try {
+            return {
+                jsonrpc: '2.0',
+                id: request.id,
+                result: this.dispatch(request.method, request.params ?? []),
+            };
+        } catch (error) {
+            const code = error instanceof RpcError ? error.code : -32603;
+            return {
+                jsonrpc: '2.0',
+                id: request.id,
+                error: { code, message: (error as Error).message },
+            };
+        }
+    }
+
+    private dispatch(method: string, params: unknown[]): unknown {
+        switch (method) {
+            case 'eth_chainId':
+                return ethers.toQuantity(this.chainId);
+            case 'net_version':
+                return String(this.chainId);
+            case 'eth_blockNumber':
+                return ethers.toQuantity(this.head);
+            case 'eth_gasPrice':
+                return ethers.toQuantity(
+                    this.baseFeePerGas + this.maxPriorityFeePerGas
+                );
+            case 'eth_maxPriorityFeePerGas':
+                return ethers.toQuantity(this.maxPriorityFeePerGas);
+            case 'eth_getBalance':
+                return ethers.toQuantity(ethers.parseEther('1000'));
+            case 'eth_call':
+                if (this.revertCalls) {
+                    throw new RpcError(3, 'execution reverted');
+                }
+                // No contract code: every call succeeds with empty return data
+                return '0x';
+            case 'eth_estimateGas': {
+                if (this.revertCalls) {
+                    throw new RpcError(3, 'execution reverted');
+                }
+                const { data } = (params[0] ?? {}) as { data?: string };
+                return ethers.toQuantity(
+                    MockNode.calldataGas(data ?? '0x') + 21000
+                );
+            }
+            case 'eth_getBlockByNumber': {
+                const block = this.blockByTag(String(params[0]));
+                return block ? this.formatBlock(block, !!params[1]) : null;
+            }
+            case 'eth_getBlockByHash': {
+                const block = this.chain.find((b) => b.hash === params[0]);
+                return block ? this.formatBlock(block, !!params[1]) : null;
+            }
+            case 'eth_getBlockTransactionCountByHash': {
+                const block = this.chain.find((b) => b.hash === params[0]);
+                return block
+                    ? ethers.toQuantity(block.transactions.length)
+                    : null;
+            }
+            case 'eth_getTransactionCount':
+                return ethers.toQuantity(
+                    params[1] === 'pending'
+                        ? this.pendingNonce(String(params[0]))
+                        : this.minedNonce(String(params[0]))
+                );
+            case 'eth_sendRawTransaction':
+                return this.acceptTransaction(String(params[0]));
+            case 'eth_getTransactionByHash':
+                return this.getTransaction(String(params[0]));
+            case 'eth_getTransactionReceipt':
+                return this.getReceipt(String(params[0]));
+            case 'eth_feeHistory':
+                return this.feeHistory(
+                    Number(params[0]),
+                    this.blockByTag(String(params[1])) ?? this.chain[this.head],
+                    (params[2] ?? []) as number[]
+                );
+            case 'eth_newBlockFilter': {
+                const id = ethers.toQuantity(this.nextId++);
+                this.filters.set(id, []);
+                return id;
+            }
+            case 'eth_getFilterChanges': {
+                const hashes = this.filters.get(String(params[0]));
+                if (!hashes) throw new RpcError(-32000, 'filter not found');
+                return hashes.splice(0, hashes.length);
+            }
+            case 'eth_uninstallFilter':
+                return this.filters.delete(String(params[0]));
+            default:
+                throw new RpcError(
+                    -32601,
+                    `the method ${method} does not exist/is not available`
+                );
+        }
+    }
+
+    private acceptTransaction(
+        raw: string,
+        submission: PrivateSubmission = {}
+    ): string {
+        const tx = ethers.Transaction.from(raw);
+        const hash = tx.hash!;
+        const from = tx.from!.toLowerCase();
+
+        if (this.received.has(hash)) {
+            throw new RpcError(-32000, 'already known');
+        }
+        if (tx.chainId !== BigInt(this.chainId)) {
+            throw new RpcError(-32000, 'invalid chain id');
+        }
+        if (tx.nonce < this.minedNonce(from)) {
+            throw new RpcError(-32000, 'nonce too low');
+        }
+
+        const existing = this.mempool.find(
+            (t) => t.from === from && t.tx.nonce === tx.nonce
+        );
+        if (existing) {
+            if (MockNode.maxFee(tx) <= MockNode.maxFee(existing.tx)) {
+                throw new RpcError(
+                    -32000,
+                    'replacement transaction underpriced'
+                );
+            }
+            this.mempool = this.mempool.filter((t) => t !== existing);
+        }
+
+        const transaction: MockTransaction = {
+            hash,
+            tx,
+            from,
+            receivedAt: Date.now(),
+            receivedBlock: this.head,
+            revert: this.revertCount > 0,
+            ...submission,
+        };
+        if (this.revertCount > 0) this.revertCount--;
+
+        this.received.set(hash, transaction);
+        this.mempool.push(transaction);
+        if (
+            submission.targetBlock === undefined &&
+            submission.maxBlock === undefined
+        ) {
+            this.notify('newPendingTransactions', () => hash);
+        }
+
+        return hash;
+    }
+
+    private minedNonce(from: string): number {
+        let count = 0;
+        for (const block of this.chain) {
+            for (const t of block.transactions) {
+                if (t.from === from.toLowerCase()) count++;
+            }
+        }
+        return count;
+    }
+
+    private pendingNonce(from: string): number {
+        let nonce = this.minedNonce(from);
+        const pending = new Set(
+            this.mempool
+                .filter((t) => t.from === from.toLowerCase())
+                .map((t) => t.tx.nonce)
+        );
+        while (pending.has(nonce)) nonce++;
+        return nonce;
+    }
+
+    private blockByTag(tag: string): MockBlock | undefined {
+        if (tag === 'latest' || tag === 'pending' || tag === 'safe') {
+            return this.chain[this.head];
+        }
+        if (tag === 'earliest' || tag === 'finalized') return this.chain[0];
+        return this.chain[Number(tag)];
+    }
+
+    /**
+     * Rewards are taken per block like geth does: transactions sorted by
+     * tip, each percentile picks the first whose cumulative gas reaches it.
+     */
+    private feeHistory(
+        count: number,
+        newest: MockBlock,
+        percentiles: number[]
+    ): Record<string, unknown> {
+        const blocks = this.chain.slice(
+            Math.max(0, newest.number - count + 1),
+            newest.number + 1
+        );
+
+        const reward = blocks.map((block) => {
+            const txs = block.transactions
+                .map((t) => ({
+                    gas: MockNode.intrinsicGas(t.tx),
+                    tip:
+                        MockNode.effectiveGasPrice(t.tx, block.baseFeePerGas) -
+                        block.baseFeePerGas,
+                }))
+                .sort((a, b) => (a.tip < b.tip ? -1 : a.tip > b.tip ? 1 : 0));
+            const total = txs.reduce((sum, t) => sum + t.gas, BigInt(0));
+
+            return percentiles.map((p) => {
+                let cumulative = BigInt(0);
+                const threshold = (Number(total) * p) / 100;
+                const picked = txs.find((t) => {
+                    cumulative += t.gas;
+                    return Number(cumulative) >= threshold;
+                });
+                return ethers.toQuantity(picked?.tip ?? BigInt(0));
+            });
+        });
+
+        return {
+            oldestBlock: ethers.toQuantity(blocks[0]?.number ?? 0),
+            baseFeePerGas: [
+                ...blocks.map((b) => ethers.toQuantity(b.baseFeePerGas)),
+                ethers.toQuantity(this.baseFeePerGas),
+            ],
+            gasUsedRatio: blocks.map(
+                (b) => Number(b.gasUsed) / Number(b.gasLimit)
+            ),
+            reward,
+        };
+    }
+
+    private getTransaction(hash: string): Record<string, unknown> | null {
+        for (const block of this.chain) {
+            const index = block.transactions.findIndex((t) => t.hash === hash);
+            if (index !== -1) {
+                return this.formatTransaction(
+                    block.transactions[index],
+                    block,
+                    index
+                );
+            }
+        }
+
+        const pending = this.received.get(hash);
+        return pending && this.mempool.includes(pending)
+            ? this.formatTransaction(pending)
+            : null;
+    }
+
+    private formatHeader(block: MockBlock): Record<string, unknown> {
+        return {
+            number: ethers.toQuantity(block.number),
+            hash: block.hash,
+            parentHash: block.parentHash,
+            timestamp: ethers.toQuantity(block.timestamp),
+            gasLimit: ethers.toQuantity(block.gasLimit),
+            gasUsed: ethers.toQuantity(block.gasUsed),
+            baseFeePerGas: ethers.toQuantity(block.baseFeePerGas),
+            miner: ethers.ZeroAddress,
+            extraData: '0x',
+            nonce: '0x0000000000000000',
+            difficulty: '0x0',
+        };
+    }
+
+    private formatBlock(
+        block: MockBlock,
+        fullTransactions: boolean
+    ): Record<string, unknown> {
+        return {
+            ...this.formatHeader(block),
+            transactions: block.transactions.map((t, index) =>
+                fullTransactions
+                    ? this.formatTransaction(t, block, index)
+                    : t.hash
+            ),
+        };
+    }
+
+    private formatTransaction(
+        t: MockTransaction,
+        block?: MockBlock,
+        index?: number
+    ): Record<string, unknown> {
+        const { tx } = t;
+        const quantity = (value: bigint | null) =>
+            value === null ? undefined : ethers.toQuantity(value);
+
+        return {
+            hash: t.hash,
+            type: ethers.toQuantity(tx.type ?? 0),
+            from: tx.from,
+            to: tx.to,
+            nonce: ethers.toQuantity(tx.nonce),
+            gas: ethers.toQuantity(tx.gasLimit),
+            value: ethers.toQuantity(tx.value),
+            input: tx.data,
+            chainId: ethers.toQuantity(tx.chainId),
+            gasPrice: quantity(tx.gasPrice),
+            maxFeePerGas: quantity(tx.maxFeePerGas),
+            maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+            accessList: tx.type === 0 ? undefined : [],
+            r: tx.signature!.r,
+            s: tx.signature!.s,
+            v: ethers.toQuantity(tx.signature!.v),
+            yParity: ethers.toQuantity(tx.signature!.yParity),
+            blockHash: block?.hash ?? null,
+            blockNumber: block ? ethers.toQuantity(block.number) : null,
+            transactionIndex:
+                index !== undefined ? ethers.toQuantity(index) : null,
+        };
+    }
+
+    private formatReceipt(
+        block: MockBlock,
+        index: number
+    ): Record<string, unknown> {
+        const t = block.transactions[index];
+        const cumulativeGasUsed = block.transactions
+            .slice(0, index + 1)
+            .reduce(
+                (sum, prior) => sum + MockNode.intrinsicGas(prior.tx),
+                BigInt(0)
+            );
+
+        return {
+            transactionHash: t.hash,
+            transactionIndex: ethers.toQuantity(index),
+            blockHash: block.hash,
+            blockNumber: ethers.toQuantity(block.number),
+            from: t.tx.from,
+            to: t.tx.to,
+            contractAddress: null,
+            gasUsed: ethers.toQuantity(MockNode.intrinsicGas(t.tx)),
+            cumulativeGasUsed: ethers.toQuantity(cumulativeGasUsed),
+            effectiveGasPrice: ethers.toQuantity(
+                MockNode.effectiveGasPrice(t.tx, block.baseFeePerGas)
+            ),
+            logs: [],
+            logsBloom: '0x' + '00'.repeat(256),
+            type: ethers.toQuantity(t.tx.type ?? 0),
+            status: t.revert ? '0x0' : '0x1',
+        };
+    }
+
+    private static maxFee(tx: ethers.Transaction): bigint {
+        return tx.maxFeePerGas ?? tx.gasPrice ?? BigInt(0);
+    }
+
+    private static effectiveGasPrice(
+        tx: ethers.Transaction,
+        baseFeePerGas: bigint
+    ): bigint {
+        if (tx.maxFeePerGas === null) return tx.gasPrice ?? BigInt(0);
+
+        const tip = tx.maxPriorityFeePerGas ?? BigInt(0);
+        const price = baseFeePerGas + tip;
+        return price < tx.maxFeePerGas ? price : tx.maxFeePerGas;
+    }
+
+    // 21000 plus calldata cost, capped at the transaction's gas limit
+    private static intrinsicGas(tx: ethers.Transaction): bigint {
+        const gas = BigInt(21000 + MockNode.calldataGas(tx.data));
+        return gas < tx.gasLimit ? gas : tx.gasLimit;
+    }
+
+    private static calldataGas(data: string): number {
+        return ethers
+            .getBytes(data)
+            .reduce((sum, byte) => sum + (byte === 0 ? 4 : 16), 0);
+    }
+}
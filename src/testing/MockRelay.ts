@@ -0,0 +1,151 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { MockNode } from './MockNode';
+
+export interface RelayRequest {
+    method: string;
+    signer: string; // Address recovered from X-Flashbots-Signature
+    blockNumber: number; // Target block for bundles, max block for private txs
+    txs: string[];
+}
+
+/**
+ * A Flashbots-style relay for tests. Checks the `X-Flashbots-Signature`
+ * header of every request, records it, and hands `eth_sendBundle` and
+ * `eth_sendPrivateTransaction` straight to the mock node.
+ */
+export class MockRelay {
+    public readonly requests: RelayRequest[] = [];
+    private server: http.Server | null = null;
+    private port = 0;
+
+    constructor(private readonly node: MockNode) {}
+
+    public get url(): string {
+        return `http://127.0.0.1:${this.port}`;
+    }
+
+    public start(port = 0): Promise<void> {
+        this.server = http.createServer((req, res) =>
+            this.handleHttp(req, res)
+        );
+
+        return new Promise((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(port, '127.0.0.1', () => {
+                this.port = (this.server!.address() as AddressInfo).port;
+                resolve();
+            });
+        });
+    }
+
+    public async stop(): Promise<void> {
+        const server = this.server;
+        this.server = null;
+        if (!server) return;
+
+        server.closeAllConnections();
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+
+    private handleHttp(
+        req: http.IncomingMessage,
+        res: http.ServerResponse
+    ): void {
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            const signer = MockRelay.recoverSigner(
+                body,
+                req.headers['x-flashbots-signature']
+            );
+            if (!signer) {
+                res.writeHead(403);
+                res.end('invalid X-Flashbots-Signature');
+                return;
+            }
+
+            let request: { id: unknown; method: string; params?: unknown[] };
+            try {
+                request = JSON.parse(body);
+            } catch {
+                res.writeHead(400);
+                res.end();
+                return;
+            }
+
+            let response: unknown;
+            try {
+                response = {
+                    jsonrpc: '2.0',
+                    id: request.id,
+                    result: this.dispatch(
+                        request.method,
+                        request.params ?? [],
+                        signer
+                    ),
+                };
+            } catch (error) {
+                response = {
+                    jsonrpc: '2.0',
+                    id: request.id,
+                    error: { code: -32000, message: (error as Error).message },
+                };
+            }
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(response));
+        });
+    }
+
+    private dispatch(
+        method: string,
+        params: unknown[],
+        signer: string
+    ): unknown {
+        switch (method) {
+            case 'eth_sendPrivateTransaction': {
+                const { tx, maxBlockNumber } = params[0] as {
+                    tx: string;
+                    maxBlockNumber: string;
+                };
+                const blockNumber = Number(maxBlockNumber);
+                this.requests.push({ method, signer, blockNumber, txs: [tx] });
+                return this.node.submitPrivate(tx, blockNumber);
+            }
+            case 'eth_sendBundle': {
+                const { txs, blockNumber: target } = params[0] as {
+                    txs: string[];
+                    blockNumber: string;
+                };
+                const blockNumber = Number(target);
+                this.requests.push({ method, signer, blockNumber, txs });
+                this.node.submitBundle(txs, blockNumber);
+                return {
+                    bundleHash: ethers.keccak256(ethers.concat(txs)),
+                };
+            }
+            default:
+                throw new Error(`the method ${method} is not supported`);
+        }
+    }
+
+    /**
+     * The header is `address:signature`, where the signature is an EIP-191
+     * signature of the body's keccak256 hash as a hex string.
+     */
+    private static recoverSigner(
+        body: string,
+        header: string | string[] | undefined
+    ): string | null {
+        const [address, signature] = String(header ?? '').split(':');
+        try {
+            const recovered = ethers.verifyMessage(ethers.id(body), signature);
+            return recovered.toLowerCase() === address.toLowerCase()
+                ? recovered
+                : null;
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,84 @@
+import { BlockReactionConfig } from '../types';
+import { MockNode } from './MockNode';
+
+// Well-known development key (Hardhat / Anvil account #0); never holds real funds
+export const TEST_PRIVATE_KEY =
+    '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+// Hardhat / Anvil accounts #1 and #2, for multi-wallet runs
+export const TEST_EXTRA_KEYS = [
+    '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d',
+    '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a',
+];
+export const TEST_RECIPIENT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+/**
+ * A run configuration pointing at the mock node, with results and metrics
+ * disabled so tests leave nothing behind.
+ */
+export function mockConfig(
+    node: MockNode,
+    overrides: Partial<BlockReactionConfig> = {}
+): BlockReactionConfig {
+    return {
+        blockSource: 'websocket',
+        websocketUrl: node.wsUrl,
+        httpRpcUrl: node.httpUrl,
+        broadcastRpcUrls: [],
+        mempoolWsUrl: '',
+        privateKey: TEST_PRIVATE_KEY,
+        privateKeys: [],
+        walletSelection: 'round-robin',
+        relayUrl: '',
+        relayMode: 'private',
+        relayAuthKey: '',
+        relayRoute: 'all',
+        recipientAddress: TEST_RECIPIENT,
+        valueWei: '10',
+        calldata: '',
+        contractAbi: '',
+        contractFunction: '',
+        contractArgs: [],
+        gasLimit: 21000,
+        estimateGas: false,
+        gasPriceGwei: 2,
+        txType: 'eip1559',
+        feeStrategy: 'provider',
+        priorityFeeGwei: 1,
+        baseFeeMultiplier: 2,
+        feeHistoryBlocks: 20,
+        feeHistoryPercentile: 50,
+        feeTiers: [10, 50, 90],
+        initialBlocksToSkip: 0,
+        transactionCount: 1,
+        sendSchedule: { mode: 'every-block' },
+        sendConditions: [],
+        dryRun: false,
+        resultsDir: 'results',
+        resultsFormats: [],
+        feeBumpAfterBlocks: 0,
+        feeBumpPercent: 10,
+        maxFeeGwei: 0,
+        metricsPort: 0,
+        metricsHost: '127.0.0.1',
+        ...overrides,
+    };
+}
+
+/**
+ * Resolves once `condition` returns true, polling every few milliseconds.
+ */
+export async function waitFor(
+    condition: () => boolean,
+    timeoutMs = 10000,
+    description = 'condition'
+): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+        if (Date.now() > deadline) {
+            throw new Error(
+                `Timed out after ${timeoutMs}ms waiting for ${description}`
+            );
+        }
+        await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+}
@@ -1,8 +1,15 @@
+import { ethers } from 'ethers';
+
 export interface BlockData {
     number: string;
     hash: string;
+    parentHash?: string;
     timestamp: string;
-    transactions: string[];
+    gasUsed?: string;
+    gasLimit?: string;
+    baseFeePerGas?: string;
+    transactions?: string[];
+    backfilled?: boolean; // Fetched over HTTP after a WebSocket reconnect
 }
 
 export interface TransactionResult {
@@ -25,31 +32,466 @@ export interface ConfirmationMetrics {
     sentBlockTimestamp: string;
     confirmedBlockTimestamp: string;
     sentTimestamp: number;
+    txType: TxType;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    baseFeePerGas?: bigint; // Base fee of the confirming block
+    effectivePriorityFee?: bigint; // effectiveGasPrice - baseFeePerGas
+    feeTier?: string; // Set by the tiers strategy, e.g. "p10"
+    confirmedBlockHash: string;
+    reorged: boolean; // True if the tx was ever reorged out before this confirmation
+    reorgCount: number;
+    originalHash: string; // Hash of the first submission
+    attemptMined: number; // 1 = original, 2 = first replacement, ...
+    replacementHashes: string[]; // Fee-bump replacements, in send order
+    feeBumpCost: bigint; // Extra fees paid because of bumps (wei)
+    broadcastResults?: EndpointSubmission[]; // Per-endpoint results of the mined attempt
+    firstReceiptEndpoint?: string;
+    txIndex: number; // Position of the tx in the confirming block
+    confirmedBlockTxCount?: number;
+    confirmedBlockGasUsedRatio?: number; // gasUsed / gasLimit of the confirming block
+    sentBlockGasUsedRatio?: number;
+    sentBlockFull?: boolean; // Sent block used at least 95% of its gas limit
+    // Latency breakdown of the first submission (block timestamps have 1s resolution)
+    blockNotificationLagMs: number; // Sent block timestamp -> block received
+    preparationMs: number; // Block received -> raw tx handed to the RPC
+    submissionMs: number; // Handed to the RPC -> RPC acknowledged the tx
+    inclusionMs?: number; // Acknowledged -> inclusion block timestamp
+    receiptLagMs?: number; // Inclusion block timestamp -> receipt observed
+    mempoolSeen?: boolean; // Set only when a mempool observer is configured
+    timeToMempoolMs?: number; // Handed to the RPC -> first seen by the mempool observer
+    presigned: boolean; // Signed before the sent block arrived
+    signingMs: number; // Time spent populating and signing, whenever that happened
+    schedule: string; // Send schedule that produced the tx, e.g. "burst:3 when baseFee<20"
+    payload: string; // "transfer", "calldata:0x<selector>" or the called function signature
+    sender: string; // Address of the wallet that sent the tx
+    route: SubmissionRoute; // Public RPC or private relay
+    relaySubmissions?: number; // Relay requests for the tx; bundles are re-sent each block
+    gasLimit: number;
+    burstIndex: number; // Position among the txs sent for the same block, from 0
+}
+
+export interface EndpointSubmission {
+    url: string;
+    latencyMs: number; // Time until the endpoint acknowledged the raw tx
+    accepted: boolean;
+    error?: string;
+    receiptSeenAt?: number; // When this endpoint first returned the receipt
+}
+
+export interface TransactionAttempt {
+    hash: string;
+    fees: FeeParams;
+    submittedBlock: number;
+    submittedAt: number; // Right before the raw tx was handed to the RPC
+    signedAt: number;
+    signingMs: number;
+    presigned: boolean;
+    acknowledgedAt: number; // When the RPC (or the first broadcast endpoint) accepted it
+    signedTx?: string; // Kept for bundles, which are re-sent until included
+    submissions?: EndpointSubmission[]; // Set when broadcasting to several RPCs
+}
+
+export interface PendingTransaction {
+    sentBlock: number;
+    startTime: number;
+    sentBlockTimestamp: string;
+    sentBlockGasUsedRatio?: number;
+    blockReceivedAt: number; // When the block source delivered the sent block
+    sentTimestamp: number;
+    schedule: string;
+    burstIndex: number;
+    sender: string;
+    route: SubmissionRoute;
+    relaySubmissions: number;
+    fees: FeeParams; // Fees of the most recent attempt
+    reorgCount: number;
+    nonce: number;
+    request: ethers.TransactionRequest; // Payload re-used for replacements
+    attempts: TransactionAttempt[];
+    bumpInFlight?: boolean;
+    bumpCeilingReached?: boolean;
+    firstReceiptEndpoint?: string;
+}
+
+export interface ReorgEvent {
+    detectedAt: number;
+    newHeadNumber: number;
+    newHeadHash: string;
+    commonAncestor: number; // Highest block number unaffected by the reorg
+    depth: number;
+    replacedBlocks: { number: number; oldHash: string; newHash?: string }[];
+    affectedTransactions: string[];
+}
+
+// Where services write progress; console in the CLI, silent by default
+export interface Logger {
+    log(...args: unknown[]): void;
+    warn(...args: unknown[]): void;
+    error(...args: unknown[]): void;
+}
+
+export type TxType = 'legacy' | 'eip1559';
+
+export type FeeStrategyType =
+    | 'provider'
+    | 'fixed-tip'
+    | 'base-fee-multiple'
+    | 'fee-history' // Tip at a reward percentile of recent blocks
+    | 'tiers'; // Rotates between several reward percentiles across sends
+
+export type SendSchedule =
+    | { mode: 'every-block' }
+    | { mode: 'every-n'; blocks: number }
+    | { mode: 'burst'; transactions: number } // Several txs per block
+    | { mode: 'random'; minBlocks: number; maxBlocks: number }; // Random gap between sends
+
+export type BlockConditionField = 'baseFee' | 'txCount' | 'gasUsedRatio';
+
+// A block must meet every condition before the schedule sends on it
+export interface SendCondition {
+    field: BlockConditionField; // baseFee in gwei, gasUsedRatio from 0 to 1
+    operator: '<' | '<=' | '>' | '>=';
+    value: number;
 }
 
+export type BlockSourceType = 'websocket' | 'http' | 'filter';
+
 export interface BlockReactionConfig {
+    chainName?: string; // Set when running several chains side by side
+    blockSource: BlockSourceType;
     websocketUrl: string;
     httpRpcUrl: string;
+    broadcastRpcUrls: string[]; // Extra endpoints raced against httpRpcUrl
+    mempoolWsUrl: string; // newPendingTransactions observer, '' disables
     privateKey: string;
-    recipientAddress: string;
+    privateKeys: string[]; // Extra sender wallets, each with its own nonces
+    walletSelection: WalletSelection;
+    relayUrl: string; // Private relay endpoint, '' submits publicly only
+    relayMode: RelayMode;
+    relayAuthKey: string; // Signs relay requests; must not be a sender key
+    relayRoute: RelayRoute;
+    recipientAddress: string; // Transfer recipient, or the contract to call
+    valueWei: string; // Decimal wei, kept as a string to survive JSON
+    calldata: string; // Raw calldata hex, '' for none
+    contractAbi: string; // JSON ABI or human-readable fragment, '' for none
+    contractFunction: string; // May be '' when the ABI has one function
+    contractArgs: unknown[];
     gasLimit: number;
+    estimateGas: boolean; // Use eth_estimateGas (+ headroom) instead of gasLimit
     gasPriceGwei: number;
+    txType: TxType;
+    feeStrategy: FeeStrategyType;
+    priorityFeeGwei: number;
+    baseFeeMultiplier: number;
+    feeHistoryBlocks: number; // Blocks of eth_feeHistory to take reward percentiles from
+    feeHistoryPercentile: number;
+    feeTiers: number[]; // Reward percentiles rotated by the tiers strategy
     initialBlocksToSkip: number;
     transactionCount: number;
+    sendSchedule: SendSchedule;
+    sendConditions: SendCondition[];
+    dryRun: boolean; // Sign and simulate each transaction, never broadcast
+    resultsDir: string;
+    resultsFormats: ResultsFormat[];
+    feeBumpAfterBlocks: number; // 0 disables fee-bump replacement
+    feeBumpPercent: number;
+    maxFeeGwei: number; // Ceiling for gasPrice / maxFeePerGas, 0 = none
+    metricsPort: number; // 0 disables the Prometheus endpoint
+    metricsHost: string;
+}
+
+export type ResultsFormat = 'jsonl' | 'csv';
+
+// private: eth_sendPrivateTransaction; bundle: eth_sendBundle for the next block
+export type RelayMode = 'private' | 'bundle';
+
+// all: every send goes to the relay; alternate: every other send goes public
+export type RelayRoute = 'all' | 'alternate';
+
+export type SubmissionRoute = 'public' | RelayMode;
+
+// round-robin: one wallet per transaction in turn; fan-out: every wallet sends on each block
+export type WalletSelection = 'round-robin' | 'fan-out';
+
+// Where each config value came from, e.g. "env:GAS_LIMIT" or "cli:--gas-limit"
+export type ConfigSources = Partial<Record<keyof BlockReactionConfig, string>>;
+
+export type ConfigSnapshot = Omit<
+    BlockReactionConfig,
+    'privateKey' | 'privateKeys' | 'relayAuthKey'
+> & {
+    walletAddress: string;
+    senderAddresses?: string[]; // Every sender, set when several were used
+};
+
+export interface ConnectionStats {
+    blockSource: string;
+    reconnects: number;
+    downtimeMs: number;
+    backfilledBlocks: number;
+    mempoolReconnects?: number; // Set when a mempool observer is configured
+    mempoolDowntimeMs?: number;
+}
+
+export interface RunRecord {
+    runId: string;
+    chainId: number;
+    startedAt: string;
+    finishedAt: string;
+    transactionsSent: number;
+    config: ConfigSnapshot;
+    connection?: ConnectionStats;
 }
 
 export interface CachedGasData {
     gasPrice: bigint;
     maxFeePerGas?: bigint;
     maxPriorityFeePerGas?: bigint;
+    baseFeePerGas?: bigint;
+    rewardPercentiles?: Record<number, bigint>; // Median eth_feeHistory reward per percentile
     lastUpdated: number;
 }
 
-export interface WebSocketMessage {
+export interface SignedTransaction {
+    signedTx: string;
+    hash: string;
+    nonce: number;
+    fees: FeeParams;
+    request: ethers.TransactionRequest; // Payload without nonce and fees
+    gasDataUpdatedAt: number; // lastUpdated of the gas data the fees came from
+    signedAt: number;
+    signingMs: number;
+    presigned: boolean;
+    estimateError?: string; // Dry run only: why eth_estimateGas failed while signing
+}
+
+export interface FeeParams {
+    type: 0 | 2;
+    gasPrice?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    baseFeePerGas?: bigint; // Base fee the fees were derived from
+    tier?: string; // Fee tier of the tiers strategy, e.g. "p90"
+}
+
+export interface WebSocketMessage<T = BlockData> {
     jsonrpc: string;
     method: string;
     params: {
         subscription: string;
-        result: BlockData;
+        result: T;
     };
 }
+
+export interface JsonRpcResponse {
+    jsonrpc: string;
+    id: number;
+    result?: unknown;
+    error?: { code: number; message: string };
+}
+
+export type BlockHandler = (blockData: BlockData) => Promise<void>;
+
+export interface BlockSource {
+    readonly name: string;
+    readonly reconnectCount: number;
+    readonly downtimeMs: number; // Time spent disconnected or failing after startup
+    readonly backfilledBlocks: number; // Missed blocks fetched after reconnecting
+    start(onBlock: BlockHandler): Promise<void>;
+    stop(): void;
+    isActive(): boolean;
+}
+
+export interface ParsedArgs {
+    flags: Record<string, string>; // '--gas-limit' -> '50000', bare flags -> 'true'
+    positionals: string[];
+}
+
+export interface CliCommand {
+    name: string;
+    summary: string;
+    usage: string;
+    options: [string, string][]; // [flag, description] pairs for --help
+    booleanFlags?: string[];
+    execute(args: ParsedArgs): Promise<number>; // Resolves to the exit code
+}
+
+// A results file read back from disk
+export interface SavedRun {
+    run: RunRecord;
+    metrics: ConfirmationMetrics[];
+    reorgs: ReorgEvent[];
+}
+
+export interface BlockSkip {
+    blockNumber: number;
+    reason: string;
+}
+
+export interface TransactionSent {
+    hash: string;
+    nonce: number;
+    sender: string;
+    sentBlockNumber: number;
+    burstIndex: number;
+    route: SubmissionRoute;
+    fees: FeeParams;
+}
+
+// A dry-run transaction: signed, checked against the pending block, not sent
+export interface SimulatedTransaction {
+    hash: string; // Of the signed transaction that would have been sent
+    nonce: number;
+    sender: string;
+    sentBlockNumber: number;
+    burstIndex: number;
+    fees: FeeParams;
+    payload: string;
+    gasLimit: number;
+    estimatedGas?: number;
+    returnData?: string; // eth_call result
+    error?: string; // Why eth_call or eth_estimateGas failed, e.g. a revert
+}
+
+export interface TransactionFailure {
+    reason: 'send-error' | 'reverted';
+    sender: string;
+    sentBlockNumber: number;
+    hash?: string; // Unset when the send itself failed
+    error?: unknown; // The send error
+    metrics?: ConfirmationMetrics; // Reverted transactions still confirm
+}
+
+// Events emitted by BlockchainService, as listener argument lists
+export interface BlockchainServiceEvents {
+    block: [BlockData];
+    blockSkipped: [BlockSkip];
+    txSent: [TransactionSent];
+    txConfirmed: [ConfirmationMetrics];
+    txFailed: [TransactionFailure];
+    txSimulated: [SimulatedTransaction];
+    completed: [SavedRun];
+    stopped: []; // After stop(), once nothing is pending any more
+    error: [Error];
+}
+
+export interface DistributionSummary {
+    count: number;
+    mean: number;
+    median: number;
+    p90: number;
+    p95: number;
+    p99: number;
+    min: number;
+    max: number;
+    stddev: number;
+}
+
+export interface LatencyStageSummary {
+    stage: keyof ConfirmationMetrics;
+    label: string;
+    ms: DistributionSummary;
+}
+
+export interface HistogramBin {
+    from: number;
+    to: number; // Inclusive
+    count: number;
+}
+
+// Confirmations grouped by how long after the sent block's timestamp the tx went out
+export interface BurstPositionSummary {
+    burstIndex: number; // 0 = first transaction sent on the block
+    blocksToConfirm: DistributionSummary;
+}
+
+// One point of the fee paid vs. blocks-to-confirm curve
+export interface FeeCurveRow {
+    label: string; // Fee tier, or tip quartile for other strategies
+    count: number;
+    avgTipOfferedGwei: number;
+    avgTipPaidGwei: number;
+    avgFeePaidEth: number; // gasUsed x effectiveGasPrice per transaction
+    blocksToConfirm: DistributionSummary;
+}
+
+export interface RouteSummary {
+    route: SubmissionRoute;
+    count: number;
+    blocksToConfirm: DistributionSummary;
+    inclusionMs: DistributionSummary; // RPC / relay ack -> inclusion block timestamp
+    mempoolSeen: number; // Seen by the mempool observer, if one was running
+}
+
+export interface SenderSummary {
+    sender: string;
+    blocksToConfirm: DistributionSummary;
+}
+
+export interface SendTimingBucket {
+    label: string;
+    fromMs: number;
+    toMs: number | null; // Exclusive, null for the open-ended last bucket
+    blocksToConfirm: DistributionSummary;
+    histogram: HistogramBin[];
+}
+
+export interface RunSummary {
+    runId: string;
+    chainId: number;
+    chainName?: string;
+    startedAt: string;
+    finishedAt: string;
+    durationMs: number;
+    transactionsSent: number;
+    transactionsConfirmed: number;
+    blocksToConfirm: DistributionSummary;
+    confirmationTimeMs: DistributionSummary;
+    blocksHistogram: HistogramBin[];
+    sendTiming: SendTimingBucket[]; // Only buckets that received sends
+    schedule?: string; // Absent for runs recorded before send schedules
+    payload?: string; // Absent for runs recorded before configurable payloads
+    burstPositions: BurstPositionSummary[]; // Empty unless bursts were sent
+    senders: SenderSummary[]; // Empty unless several wallets sent
+    feeCurve: FeeCurveRow[];
+    routes: RouteSummary[]; // Empty unless a private relay was used
+    blocksToConfirmAfterFullBlock: DistributionSummary;
+    blocksToConfirmAfterNonFullBlock: DistributionSummary;
+    avgConfirmedBlockGasUsedRatio: number | null; // null when no block reported gas
+    latencyBreakdown: LatencyStageSummary[];
+    presignedTransactions: number;
+    signingMs: DistributionSummary;
+    mempoolObserved: number; // Transactions confirmed while an observer was running
+    mempoolSeen: number;
+    timeToMempoolMs: DistributionSummary;
+    connection?: ConnectionStats;
+    totalGasUsed: bigint;
+    totalFeesPaid: bigint; // Sum of gasUsed x effectiveGasPrice (wei)
+    avgEffectiveGasPrice: bigint;
+    feeBumpedTransactions: number;
+    feeBumpCost: bigint;
+    reorgs: number;
+    reorgedTransactions: number;
+}
+
+export interface MetricChange {
+    metric: string;
+    a: number;
+    b: number;
+    delta: number; // b - a
+    deltaPercent: number | null; // null when a is 0
+}
+
+export interface ConfigChange {
+    key: string;
+    a: unknown;
+    b: unknown;
+}
+
+export interface RunComparison {
+    a: RunSummary;
+    b: RunSummary;
+    changes: MetricChange[];
+    configChanges: ConfigChange[];
+}
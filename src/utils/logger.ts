@@ -0,0 +1,8 @@
+import { Logger } from '../types';
+
+// Default for embedded services: writes nothing unless a logger is passed
+export const SILENT_LOGGER: Logger = {
+    log: () => undefined,
+    warn: () => undefined,
+    error: () => undefined,
+};
@@ -0,0 +1,70 @@
+import { DistributionSummary, HistogramBin } from '../types';
+
+export function mean(values: number[]): number {
+    if (values.length === 0) return 0;
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+/**
+ * Percentile by linear interpolation between closest ranks (p in 0..100).
+ */
+export function percentile(values: number[], p: number): number {
+    if (values.length === 0) return 0;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (p / 100) * (sorted.length - 1);
+    const lower = Math.floor(rank);
+    const upper = Math.ceil(rank);
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number {
+    return percentile(values, 50);
+}
+
+/**
+ * Sample standard deviation (n - 1 denominator); 0 for fewer than two values.
+ */
+export function stddev(values: number[]): number {
+    if (values.length < 2) return 0;
+
+    const avg = mean(values);
+    const squares = values.reduce((sum, v) => sum + (v - avg) ** 2, 0);
+    return Math.sqrt(squares / (values.length - 1));
+}
+
+export function summarize(values: number[]): DistributionSummary {
+    return {
+        count: values.length,
+        mean: mean(values),
+        median: median(values),
+        p90: percentile(values, 90),
+        p95: percentile(values, 95),
+        p99: percentile(values, 99),
+        min: values.length > 0 ? Math.min(...values) : 0,
+        max: values.length > 0 ? Math.max(...values) : 0,
+        stddev: stddev(values),
+    };
+}
+
+/**
+ * Counts integer-valued samples into contiguous bins of equal width, one
+ * bin per value when the range fits in `maxBins`. Empty bins are kept so
+ * gaps show up in the rendered histogram.
+ */
+export function histogram(values: number[], maxBins = 20): HistogramBin[] {
+    if (values.length === 0) return [];
+
+    const min = Math.floor(Math.min(...values));
+    const max = Math.floor(Math.max(...values));
+    const width = Math.max(1, Math.ceil((max - min + 1) / maxBins));
+
+    const bins: HistogramBin[] = [];
+    for (let from = min; from <= max; from += width) {
+        bins.push({ from, to: from + width - 1, count: 0 });
+    }
+    for (const value of values) {
+        bins[Math.floor((Math.floor(value) - min) / width)].count++;
+    }
+    return bins;
+}